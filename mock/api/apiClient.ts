@@ -23,6 +23,12 @@ class Users {
     return MemoryServer.getUsers();
   };
 
+  // gets a page of users, starting from the cursor
+  getUserPage = async (args: AddTestArgs<{ cursor?: number; pageSize?: number }>) => {
+    await processTestArgs(args);
+    return MemoryServer.getUserPage(args.cursor ?? 0, args.pageSize ?? 2);
+  };
+
   // gets a single user by ID.
   getUser = async (args: AddTestArgs<{ id: string }>) => {
     await processTestArgs(args);
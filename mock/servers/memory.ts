@@ -45,6 +45,16 @@ export namespace MemoryServer {
     return users;
   }
 
+  export interface IUserPage {
+    users: IUser[];
+    nextCursor?: number;
+  }
+
+  export function getUserPage(cursor: number, pageSize: number): IUserPage {
+    const nextCursor = cursor + pageSize;
+    return { users: users.slice(cursor, nextCursor), nextCursor: nextCursor < users.length ? nextCursor : undefined };
+  }
+
   export function getUser(id: string): IUser {
     const user = users.filter((u) => u.id === id);
     if (user.length === 1) {
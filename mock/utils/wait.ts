@@ -0,0 +1,9 @@
+/**
+ * Resolves after the given delay, used by tests to let time pass when asserting that something does NOT happen.
+ * - Prefer the `waitFor` helper returned by `renderHook` when waiting for something to happen, or jest's fake timers for timer-driven behaviour.
+ * @param delay The delay in milliseconds
+ */
+export const wait = (delay: number) =>
+  new Promise((resolve) => {
+    setTimeout(resolve, delay);
+  });
@@ -2,11 +2,16 @@ import * as React from 'react';
 import { ApiHooksCaching } from './caching';
 import { ApiHooksStore } from './store';
 import { ApiHooksSystemSettings } from './systemSettings';
-import { ApiHooksGlobal } from './global';
+import { ApiHooksClient } from './client';
 import { EndpointIDs } from './endpointIDs';
 import { Objects } from '../utils/objects';
 import { ApiHooksEvents } from './events';
 import { ApiHooksResponders } from './responders';
+import { ApiHooksOptimistic } from './optimistic';
+import { ApiHooksEntities } from './entities';
+import { ApiHooksRetry } from './retry';
+import { ApiHooksFocus } from './focus';
+import { ApiHooksInfinite } from './infinite';
 
 /**
  * API Hooks
@@ -30,6 +35,9 @@ export namespace ApiHooks {
   /** general utility type - gets the type of the first parameter in a function */
   export type FirstParamOf<TFunc extends AnyFunction> = Parameters<TFunc>[0];
 
+  /** general utility type - omits keys from each member of a union separately, so that the union can still be narrowed */
+  type DistributiveOmit<T, TKey extends PropertyKey> = T extends unknown ? Omit<T, TKey> : never;
+
   /** general utility type - differentiates between the three types of hook that can be used for an endpoint */
   export type HookType = 'query' | 'mutation' | 'request';
 
@@ -66,13 +74,13 @@ export namespace ApiHooks {
   ) => DefaultDataControllerLibrary<TApiClient>;
 
   /** The root type of the apiHooks "multi" object, represents a dictionary of api clients */
-  export type ControllerHooksMulti<TApiClientDictionary, TProcessingResponse> = {
-    [TClientKey in keyof TApiClientDictionary]: ControllerHooks<TApiClientDictionary[TClientKey], TProcessingResponse>;
+  export type ControllerHooksMulti<TApiClientDictionary, TProcessingResponse, TError = any> = {
+    [TClientKey in keyof TApiClientDictionary]: ControllerHooks<TApiClientDictionary[TClientKey], TProcessingResponse, TError>;
   };
 
   /** The root type of the apiHooks object, represents a dictionary of controllers */
-  export type ControllerHooks<TApiClient, TProcessingResponse> = {
-    [TControllerKey in keyof TApiClient]: EndpointHooks<TApiClient[TControllerKey], TProcessingResponse>;
+  export type ControllerHooks<TApiClient, TProcessingResponse, TError = any> = {
+    [TControllerKey in keyof TApiClient]: EndpointHooks<TApiClient[TControllerKey], TProcessingResponse, TError>;
   };
 
   /** The root type of the hookConfig "multi" object, represents a dictionary of api clients */
@@ -100,13 +108,17 @@ export namespace ApiHooks {
   export type DefaultDataControllerLibrary<TApiClient> = { [TControllerKey in keyof TApiClient]: DefaultDataLibrary<TApiClient[TControllerKey]> };
 
   /** Adds the three hooks to each endpoint within a controller (if it's a function within a controller, it's an endpoint) */
-  export type EndpointHooks<TApiController, TProcessingResponse> = {
+  export type EndpointHooks<TApiController, TProcessingResponse, TError = any> = {
     [TEndpointKey in keyof TApiController]: TApiController[TEndpointKey] extends AnyFunction
       ? {
           /** The hook to be used if the endpoint is a GET and should interface with the caching system. */
-          useQuery: UseQuery<TApiController[TEndpointKey], TProcessingResponse>;
+          useQuery: UseQuery<TApiController[TEndpointKey], TProcessingResponse, TError>;
+          /** The hook to be used to query the endpoint with a dynamic list of parameter sets, each one is cached separately as if it were a separate useQuery. */
+          useQueries: UseQueries<TApiController[TEndpointKey], TError>;
+          /** The hook to be used if the endpoint is a paginated GET, and the pages should be loaded one after another into the same cache (i.e. for infinite scrolling). */
+          useInfiniteQuery: UseInfiniteQuery<TApiController[TEndpointKey], TProcessingResponse, TError>;
           /** The hook to be used if the endpoint is a POST/PUT/DELETE and we just need a fetcher and sone live, local state. without any caching. */
-          useMutation: UseMutation<TApiController[TEndpointKey], TProcessingResponse>;
+          useMutation: UseMutation<TApiController[TEndpointKey], TProcessingResponse, TError>;
           /** The hook to be used for any request when we ONLY want the basic promise constructor, with no local state and no caching at all. */
           useRequest: UseRequest<TApiController[TEndpointKey]>;
           /** This hook returns a library of useful tools associated with a single endpoint. */
@@ -120,7 +132,7 @@ export namespace ApiHooks {
    */
   export type MockEndpointLibrary<TApiController> = {
     [TEndpointKey in keyof TApiController]: TApiController[TEndpointKey] extends AnyFunction
-      ? (arg: FirstParamOf<TApiController[TEndpointKey]>, testKey: string) => ReturnType<TApiController[TEndpointKey]>
+      ? (arg: FirstParamOf<TApiController[TEndpointKey]>, testKey: string, signal?: AbortSignal) => ReturnType<TApiController[TEndpointKey]>
       : never;
   };
 
@@ -147,6 +159,8 @@ export namespace ApiHooks {
           >;
           /** The request settings to apply to each endpoint, overrides the application settings, but can be overridden at hook level */
           request?: Partial<UseRequestSettings<FirstParamOf<TApiController[TEndpointKey]>, PromiseResult<ReturnType<TApiController[TEndpointKey]>>>>;
+          /** (optional) Describes the entities in the endpoint's response, they'll be stored in a shared entity table so that an update from any endpoint is reflected in every query containing the entity */
+          normaliser?: ApiHooksEntities.Schema;
         }
       : never;
   };
@@ -199,7 +213,7 @@ export namespace ApiHooks {
      * The manual fetch method associated with the hook being used, typings will be different depending on whether it's `useQuery` or `useMutation`.
      */
     fetch:
-      | ((param?: Partial<any> | undefined, fetchSettings?: UseQueryFetchSettings<TRawResponse> | undefined) => void)
+      | ((param?: Partial<any> | undefined, fetchSettings?: UseQueryFetchSettings<TRawResponse> | undefined) => Promise<TRawResponse>)
       | ((param?: Partial<any> | undefined, fetchSettings?: Partial<UseMutationSettings<any, TRawResponse>> | undefined) => Promise<TRawResponse>);
   }
 
@@ -241,7 +255,7 @@ export namespace ApiHooks {
   /**
    * Type denoting the settings object passed to the create method.
    */
-  export interface CreationSettings<TApiClient, TParam, TProcessingResponse> extends CreatingSettingsBase<TParam> {
+  export interface CreationSettings<TApiClient, TParam, TProcessingResponse, TError = any> extends CreatingSettingsBase<TParam> {
     /**
      * The factory function that creates the hook config library
      */
@@ -265,7 +279,7 @@ export namespace ApiHooks {
      * @param settings - The final combined settings at the time of the fetch, typings will be different depending on whether it's `useQuery` or `useMutation`
      * @returns whatever you like, the returned value will be available, strictly typed, under the `processing` property of the live response returned by `useQuery` and `useMutation`
      */
-    processingHook?: ProcessingHook<TProcessingResponse>;
+    processingHook?: ProcessingHook<TProcessingResponse, any, TError>;
 
     /**
      * An optional hook which should return an async function which will be called before every query/mutation.
@@ -301,6 +315,17 @@ export namespace ApiHooks {
      * This is useful if your application structure involves setting all cache keys and refetch queries at endpoint level, and you don't want to leave anything out.
      */
     showMissingConfigWarnings?: boolean;
+    /**
+     * An optional budget for the cache as a whole, applied across all endpoints of any query client the hooks are used with. When exceeded, the least recently read data is evicted.
+     * - Data that is used by a mounted query, or marked as `pinned` in the caching settings will never be evicted.
+     */
+    cacheBudget?: ApiHooksCaching.Budget;
+    /**
+     * Passes the abort signal of each request to the endpoint, so that the request can be stopped when it's cancelled. Off by default, as the second argument of an endpoint may already mean something else.
+     * - If true, a request options object (i.e. `{ signal }`) is passed as the second argument of the endpoint.
+     * - If a function, it receives the signal and returns the second argument of the endpoint, i.e. `(signal) => ({ fetchOptions: { signal } })`.
+     */
+    passAbortSignal?: boolean | ((signal: AbortSignal) => any);
   }
 
   /** LIVE RESPONSE TYPES */
@@ -310,16 +335,51 @@ export namespace ApiHooks {
    */
   export type FetchingMode = 'not-fetching' | 'auto' | 'manual' | 'refetch' | 'aborted';
 
+  /**
+   * The status of a live response, derived from the state of the request
+   * - `idle` - No request is in progress, and there's no data or error
+   * - `pending` - A request is in progress, and there's no data yet
+   * - `success` - There's data to show, a request may be in progress to refresh it
+   * - `error` - The last request failed, and no request is in progress
+   */
+  export type LiveStatus = 'idle' | 'pending' | 'success' | 'error';
+
+  /**
+   * The status, data and error of a live response, as a union discriminated by `status`.
+   * - Checking for `success` narrows `data` to be defined, checking for `error` narrows `error` to be defined, and typed as the error type passed to the create method.
+   */
+  export type LiveResponseState<TCache, TError = any> =
+    | { status: 'idle'; data?: undefined; error?: undefined }
+    | { status: 'pending'; data?: undefined; error?: TError }
+    | { status: 'success'; data: TCache; error?: TError }
+    | { status: 'error'; data?: TCache; error: TError };
+
   /** The type denoting the live response object returned from both the useQuery and useMutation hooks */
-  export type LiveResponse<TCache, TProcessingResponse> = {
-    data?: TCache;
-    error?: any;
+  export type LiveResponse<TCache, TProcessingResponse, TError = any> = LiveResponseState<TCache, TError> & {
     isFetching: boolean;
     fetchingMode: FetchingMode;
     processed: TProcessingResponse;
     endpointID: string;
   };
 
+  /** The type denoting the live response object returned from the query hooks, includes the freshness of the data */
+  export type QueryLiveResponse<TCache, TProcessingResponse, TError = any> = LiveResponse<TCache, TProcessingResponse, TError> & {
+    /** True whilst the first request is in progress, and there's no cached data to show */
+    isLoading: boolean;
+    /** True whilst a request is in progress, and there's cached data to show */
+    isRefetching: boolean;
+    /** True if the cached data is stale according to the `staleIfOlderThan` caching setting, has been marked for a refetch, or there's no cached data. Updated as soon as the data becomes stale. */
+    isStale: boolean;
+    /** True if the data is default data or initial data, rather than data from the cache */
+    isPlaceholder: boolean;
+    /** (optional) The UNIX timestamp of the request that loaded the cached data */
+    dataUpdatedAt?: number;
+    /** (optional) The UNIX timestamp of the last failed request */
+    errorUpdatedAt?: number;
+    /** Re-fetches the data from the server, regardless of any valid cache (i.e. from a "Try again" button after an error) */
+    retry: () => void;
+  };
+
   /** LIFE CYCLE SETTINGS */
 
   export interface LifeCycleCallbackSettings<TResponse, TSettings> {
@@ -357,30 +417,41 @@ export namespace ApiHooks {
   /** USE QUERY TYPES */
 
   /** The type of the useQuery hook, receives execution settings and returns an array containing the live state and a fetch method */
-  interface UseQuery<TEndpoint extends AnyFunction, TProcessingResponse> {
-    (settings?: Partial<UseQuerySettings<FirstParamOf<TEndpoint>, PromiseResult<ReturnType<TEndpoint>>>>): UseQueryResponse<
-      PromiseResult<ReturnType<TEndpoint>>,
-      Partial<FirstParamOf<TEndpoint>>,
-      TProcessingResponse
-    >;
+  interface UseQuery<TEndpoint extends AnyFunction, TProcessingResponse, TError = any> {
+    <TSelected = PromiseResult<ReturnType<TEndpoint>>>(
+      settings?: Partial<UseQuerySettings<FirstParamOf<TEndpoint>, PromiseResult<ReturnType<TEndpoint>>, TSelected>>
+    ): UseQueryResponse<PromiseResult<ReturnType<TEndpoint>>, Partial<FirstParamOf<TEndpoint>>, TProcessingResponse, TSelected, TError>;
   }
 
   /**
    * The type denoting the response of the useQuery hook
    * @returns[0] An object containing the live data, error, and fetching bool relating to the API request.
-   * @returns[1] A manual fetch method for invoking the request - receives the params, optional settings and returns a promise with some data
+   * @returns[1] A manual fetch method for invoking the request - receives the params, optional settings and returns a promise of the fetched or cached data (or the request already in progress), which rejects if the request fails, and resolves with undefined if the request is aborted or cancelled by a pre-processor
    * @returns[2] A manual state setter for the state slice in question (DO NOT USE UNLESS YOU HAVE TO)
+   * @returns[3] A cancel method for aborting the request in progress for the state slice, if there is one
    */
-  export type UseQueryResponse<TCache, TParam, TProcessingResponse> = [
-    LiveResponse<TCache, TProcessingResponse>,
-    (param?: Partial<TParam>, fetchSettings?: UseQueryFetchSettings<TCache>) => void,
-    (newState: TCache, overrideSettings?: UseQueryConfigSettings<TParam, TCache>) => void
+  export type UseQueryResponse<TCache, TParam, TProcessingResponse, TSelected = TCache, TError = any> = [
+    QueryLiveResponse<TSelected, TProcessingResponse, TError>,
+    (param?: Partial<TParam>, fetchSettings?: UseQueryFetchSettings<TCache>) => Promise<TCache | undefined>,
+    (newState: TCache, overrideSettings?: UseQueryConfigSettings<TParam, TCache>) => void,
+    () => void
   ];
 
+  /**
+   * The interval at which a query is re-fetched, either a number of milliseconds, or a function which receives the latest data and returns the interval. `false` will stop the polling.
+   */
+  export type RefetchInterval<TResponse> = number | false | ((data: TResponse | undefined) => number | false);
+
+  /**
+   * Whether a query can be invoked automatically, either a boolean, or a function which receives the parameters and returns a boolean.
+   */
+  export type Enabled<TParam> = boolean | ((params: Partial<TParam>) => boolean);
+
   /**
    * The basic query settings used at system, application, endpoint and hook execution level.
    */
-  export interface UseQuerySettings<TParam, TResponse> extends LifeCycleCallbackSettings<TResponse, UseQuerySettings<TParam, TResponse>> {
+  export interface UseQuerySettings<TParam, TResponse, TSelected = TResponse>
+    extends LifeCycleCallbackSettings<TResponse, UseQuerySettings<TParam, TResponse>> {
     /**
      * Should the request fire when the component mounts? Will only fire if cache is stale - defaults to true at system level
      */
@@ -389,10 +460,28 @@ export namespace ApiHooks {
      * Should the request re-fire when the params change? - defaults to true at system level
      */
     invokeOnParamChange: boolean;
+    /**
+     * (optional) Re-fetches the data on an interval (in milliseconds) while a component using the query is mounted. The interval is paused whilst a request is in progress, or the document is hidden.
+     * Can be a function, which receives the latest data and returns the interval, polling will stop when the function returns false (i.e. when a job has finished)
+     * @example (job) => (job?.status === 'complete' ? false : 5000)
+     */
+    refetchInterval?: RefetchInterval<TResponse>;
+    /**
+     * Should stale data be re-fetched when the window regains focus? Only applies while a component using the query is mounted - defaults to false at system level
+     */
+    refetchOnFocus: boolean;
+    /**
+     * Should stale data be re-fetched when the network comes back online? Only applies while a component using the query is mounted - defaults to false at system level
+     */
+    refetchOnReconnect: boolean;
     /**
      * The caching settings
      */
     caching: Partial<ApiHooksCaching.Settings<TParam>>;
+    /**
+     * The retry settings, failed requests are only retried if `attempts` is greater than 1 - defaults to 1 at system level
+     */
+    retry: Partial<ApiHooksRetry.Settings>;
     /**
      * Should the hook use the canned default data on initial render?
      */
@@ -409,6 +498,15 @@ export namespace ApiHooks {
      * (optional) Will hold any invocation until the parameter designated as the cacheKey has a non "falsy" value.
      */
     holdInvokeForCacheKeyParam: boolean;
+    /**
+     * Can the query be invoked automatically (on mount and when the params change)? Can be a function which receives the parameters, invocation will be held until it returns true, i.e. until every ID a dependent query needs has a value. Manual invocations are not affected - defaults to true at system level
+     * @example (params) => !!params.orgId && !!params.userId
+     */
+    enabled: Enabled<TParam>;
+    /**
+     * Should the hook suspend whilst there's no data? The request promise is thrown for the nearest React `Suspense` boundary to catch, and any error is thrown for the nearest error boundary - defaults to false at system level
+     */
+    suspense: boolean;
     /**
      * Should manual invocations hit the server by default? Can be over-ridden during a manualInvoke with the `forceNetwork` setting
      */
@@ -429,6 +527,19 @@ export namespace ApiHooks {
      * By default, the system will block any request with the same endpoint/cacheKey whilst a request is already in progress. Setting this to true will override that behaviour and allow both requests to fire.
      */
     allowSimultaneousRequests: boolean;
+    /**
+     * Should refetched data share structure with the data already stored? Unchanged parts of the response keep their previous references, so memoised components won't re-render needlessly. Set to false if the data must always be a new object - defaults to true at system level
+     */
+    structuralSharing: boolean;
+    /**
+     * (optional) A function to derive a value from the cached data, the derived value will be returned as `data` instead of the full response. The component will only re-render when the derived value changes, rather than whenever the cached data changes.
+     */
+    select?: (data: TResponse) => TSelected;
+    /**
+     * (optional) The tags provided by the query, stored against the cached data so that any mutation invalidating one of the tags will mark the query for a refetch. Can be a static list, or a function which derives the tags from the response data and parameters.
+     * @example (user, params) => ['User', `User:${params.id}`]
+     */
+    providesTags?: ProvidedTagsDefinition<TParam, TResponse>;
     /**
      * A key to show in the debug logs, most useful at hook level to differentiate between two uses of the same hook when debugging.
      */
@@ -457,14 +568,133 @@ export namespace ApiHooks {
     payloadModifier?: (prevData: TResponse, newData: TResponse) => TResponse;
   }
 
+  /**
+   * The options passed to the query runner from the useQuery hook
+   */
+  interface RunQueryOptions {
+    /**
+     * The pre-processor returned from the pre-processing hook
+     */
+    preProcessor?: PreProcessorChecker;
+    /**
+     * The test keys from the provider, overrides any test keys passed to the query client
+     */
+    testKeys?: ApiHooksStore.TestKeyState;
+    /**
+     * The data to pass to the payload modifier as the previous data, the cached data is used if not passed
+     */
+    previousData?: any;
+    /**
+     * The parameters used by the previous request, passed to the payload modifier
+     */
+    previousParams?: any;
+    /**
+     * Called immediately before the request is made, receives the final settings
+     */
+    onRequest?: (settings: UseQueryConfigSettings<any, any>) => void;
+    /**
+     * A custom request, used by infinite queries to fetch several pages and store them together. The endpoint is called once with the query parameters if not passed.
+     */
+    request?: ApiHooksInfinite.Request;
+    /**
+     * Whether the query is being started during render (i.e. by a suspending component), the loading action is deferred until the render has finished so that no other components are updated whilst rendering.
+     * The state slice isn't scheduled for garbage collection once loaded, as the suspended component will mount when it renders again.
+     */
+    isRendering?: boolean;
+  }
+
+  /** USE QUERIES TYPES */
+
+  /** The type of the useQueries hook, receives a list of parameter sets and the execution settings shared by every query, and returns an array of live responses */
+  interface UseQueries<TEndpoint extends AnyFunction, TError = any> {
+    <TSelected = PromiseResult<ReturnType<TEndpoint>>>(
+      parameterSets: Partial<FirstParamOf<TEndpoint>>[],
+      settings?: Partial<UseQuerySettings<FirstParamOf<TEndpoint>, PromiseResult<ReturnType<TEndpoint>>, TSelected>>
+    ): UseQueriesResponse<TSelected, TError>;
+  }
+
+  /**
+   * The type denoting the response of the useQueries hook, a live response for each parameter set in the same order.
+   * - The processing hook is a React hook, so it can't be run for a changing number of queries - the `processed` value of each live response is always undefined.
+   */
+  export type UseQueriesResponse<TSelected, TError = any> = QueryLiveResponse<TSelected, undefined, TError>[];
+
+  /** USE INFINITE QUERY TYPES */
+
+  /** The type of the useInfiniteQuery hook, receives execution settings including the page param functions, and returns an array containing the live state and page fetchers */
+  interface UseInfiniteQuery<TEndpoint extends AnyFunction, TProcessingResponse, TError = any> {
+    <TSelected = ApiHooksInfinite.Data<PromiseResult<ReturnType<TEndpoint>>, Partial<FirstParamOf<TEndpoint>>>>(
+      settings: UseInfiniteQuerySettings<FirstParamOf<TEndpoint>, PromiseResult<ReturnType<TEndpoint>>, TSelected>
+    ): UseInfiniteQueryResponse<PromiseResult<ReturnType<TEndpoint>>, Partial<FirstParamOf<TEndpoint>>, TProcessingResponse, TSelected, TError>;
+  }
+
+  /**
+   * The settings passed to the useInfiniteQuery hook, the standard query settings (applied to the array of pages) and the page param functions
+   */
+  export type UseInfiniteQuerySettings<TParam, TResponse, TSelected = ApiHooksInfinite.Data<TResponse, Partial<TParam>>> = Partial<
+    UseQuerySettings<TParam, ApiHooksInfinite.Data<TResponse, Partial<TParam>>, TSelected>
+  > &
+    ApiHooksInfinite.Settings<TParam, TResponse>;
+
+  /** The live response returned from the useInfiniteQuery hook, includes the status of the next and previous pages */
+  export type InfiniteLiveResponse<TSelected, TProcessingResponse, TError = any> = QueryLiveResponse<TSelected, TProcessingResponse, TError> & {
+    /** True if `getNextPageParam` returns params for another page */
+    hasNextPage: boolean;
+    /** True if `getPreviousPageParam` returns params for another page */
+    hasPreviousPage: boolean;
+    /** True whilst the next page is being fetched */
+    isFetchingNextPage: boolean;
+    /** True whilst the previous page is being fetched */
+    isFetchingPreviousPage: boolean;
+  };
+
+  /**
+   * The type denoting the response of the useInfiniteQuery hook
+   * @returns[0] An object containing the live data (the array of pages), error, fetching bools and next/previous page availability.
+   * @returns[1] A method for fetching the next page, adds it to the end of the pages
+   * @returns[2] A method for fetching the previous page, adds it to the start of the pages
+   * @returns[3] A manual refetch method, re-fetches every loaded page in order - receives the params and optional settings, and returns a promise of the pages, which rejects if the request fails, and resolves with undefined if the request is aborted or cancelled by a pre-processor
+   * @returns[4] A cancel method for aborting the request in progress for the state slice, if there is one
+   */
+  export type UseInfiniteQueryResponse<TResponse, TParam, TProcessingResponse, TSelected = ApiHooksInfinite.Data<TResponse, TParam>, TError = any> = [
+    InfiniteLiveResponse<TSelected, TProcessingResponse, TError>,
+    () => Promise<void>,
+    () => Promise<void>,
+    (
+      param?: Partial<TParam>,
+      fetchSettings?: UseQueryFetchSettings<ApiHooksInfinite.Data<TResponse, TParam>>
+    ) => Promise<ApiHooksInfinite.Data<TResponse, TParam> | undefined>,
+    () => void
+  ];
+
+  /**
+   * The tools returned from the shared query hook to the useInfiniteQuery hook
+   */
+  interface InfiniteQueryTools {
+    fetchPage: (direction: ApiHooksInfinite.Direction) => Promise<void>;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  }
+
+  /**
+   * The mode of the query hook shared by useQuery and useInfiniteQuery, infinite queries store every loaded page together and need the page param functions
+   */
+  type QueryMode = { type: 'standard' } | { type: 'infinite'; pageSettings: ApiHooksInfinite.Settings<any, any> };
+
+  /**
+   * The response of the query hook shared by useQuery and useInfiniteQuery, the useQuery response followed by the tools for fetching pages
+   */
+  type QueryHookResponse = [...UseQueryResponse<any, any, any>, InfiniteQueryTools];
+
   /** USE MUTATION TYPES */
 
   /** The type of the useMutation hook, receives execution settings and returns a fetch method and some live response state */
-  interface UseMutation<TEndpoint extends AnyFunction, TProcessingResponse> {
+  interface UseMutation<TEndpoint extends AnyFunction, TProcessingResponse, TError = any> {
     (settings?: Partial<UseMutationSettings<FirstParamOf<TEndpoint>, PromiseResult<ReturnType<TEndpoint>>>>): UseMutationResponse<
       PromiseResult<ReturnType<TEndpoint>>,
       Partial<FirstParamOf<TEndpoint>>,
-      TProcessingResponse
+      TProcessingResponse,
+      TError
     >;
   }
 
@@ -475,13 +705,37 @@ export namespace ApiHooks {
    * [0] - The fetch method used to send the request, returns a promise.
    * [1] - A simple "live response" object - not stored in global state.
    * [2] - A "refetch"
+   * [3] - A cancel method, aborts any requests in progress, the promises of which will resolve with undefined.
    */
-  export type UseMutationResponse<TResponse, TParam, TProcessingResponse> = [
+  export type UseMutationResponse<TResponse, TParam, TProcessingResponse, TError = any> = [
     (param?: Partial<TParam>, fetchSettings?: Partial<UseMutationSettings<TParam, TResponse>>) => Promise<TResponse>,
-    LiveResponse<TResponse, TProcessingResponse>,
-    (refetchQueries: RefetchQueryDefinition<TParam, UseMutationSettings<TParam, TResponse>>) => void
+    LiveResponse<TResponse, TProcessingResponse, TError>,
+    (refetchQueries: RefetchQueryDefinition<TParam, UseMutationSettings<TParam, TResponse>>) => void,
+    () => void
   ];
 
+  /**
+   * The live response state stored by the useMutation hook, the status is stored in the same format as a state slice status, and converted when returned
+   */
+  type MutationFetchResponse = Omit<UseMutationResponse<any, any, any>[1], 'processed' | 'status'> & {
+    status?: ApiHooksStore.StateSlice<any>['status'];
+  };
+
+  /**
+   * A tag attached to cached queries, used to mark every query providing the tag for a refetch from a mutation, i.e. `User` or `User:1`
+   */
+  export type Tag = string;
+
+  /**
+   * The tags provided by a query, either a static list or a function which derives them from the response data and parameters
+   */
+  export type ProvidedTagsDefinition<TParam, TResponse> = Tag[] | ((data: TResponse, params: TParam) => Tag[]);
+
+  /**
+   * The tags invalidated by a mutation, either a static list or a function which derives them from the settings (including the parameters) and the response
+   */
+  export type InvalidatedTagsDefinition<TSettings, TResponse> = Tag[] | ((settings: TSettings, response: TResponse) => Tag[]);
+
   /**  */
   export type RefetchQueryDefinition<TParam, TSettings> = EndpointIDs.Response<TParam>[] | ((settings: TSettings) => EndpointIDs.Response<TParam>[]);
 
@@ -498,6 +752,10 @@ export namespace ApiHooks {
      * Should the hook always use the mock endpoint to fetch data, rather than the real endpoint?
      */
     useMockEndpoints?: boolean;
+    /**
+     * The retry settings, failed requests are only retried if `attempts` is greater than 1 - defaults to 1 at system level
+     */
+    retry?: Partial<ApiHooksRetry.Settings>;
     /**
      * The parameters of the mutation request can be optionally defined here.
      */
@@ -510,6 +768,15 @@ export namespace ApiHooks {
      * An optional piece of data to send to endpoint level refetch queries in order to form a cache key.
      */
     refetchQueryContext?: any;
+    /**
+     * (optional) The tags invalidated by the mutation, every cached query providing one of the tags will be re-fetched after the mutation has succeeded. Can be a static list, or a function which derives the tags from the settings (including the parameters) and the response.
+     * @example (settings) => [`User:${settings.parameters?.id}`]
+     */
+    invalidatesTags?: InvalidatedTagsDefinition<UseMutationSettings<TParam, TResponse>, TResponse>;
+    /**
+     * A set of provisional updates to apply to query cache before the mutation has responded. These are rolled back if the mutation fails.
+     */
+    optimisticUpdates?: ApiHooksOptimistic.UpdateDefinition<TParam, UseMutationSettings<TParam, TResponse>>;
     /**
      * A key to show in the debug logs, most useful at hook level to differentiate between two uses of the same hook when debugging.
      */
@@ -567,6 +834,12 @@ export namespace ApiHooks {
     (settings?: UseToolsSettings): UseToolsResponse<Partial<FirstParamOf<TEndpoint>>>;
   }
 
+  /** Additional settings for a refetch of all cache keys */
+  export interface UseToolsRefetchAllConfig<TParam> extends ApiHooksStore.RefetchConfig<TParam> {
+    /** (optional) A function which decides whether each state slice should be re-fetched, see `EndpointIDs.Config` */
+    predicate?: EndpointIDs.Predicate<TParam>;
+  }
+
   /** Additional settings for a cache key specific refetch */
   export interface UseToolsRefetchAllCacheKeyConfig<TParam> extends ApiHooksStore.RefetchConfig<TParam> {
     cacheKeyValue: string | number;
@@ -579,9 +852,16 @@ export namespace ApiHooks {
     /**
      * Logs a refetch request for all queries associated with this endpoint only.
      * @param config (optional) Either an array of cache key specific configs, or a general config to be applied to all cache keys.
-     * NOTE: If an array is passed here, only the cache key values supplied will be re-fetched.
+     * NOTE: If an array is passed here, only the cache key values supplied will be re-fetched. If a general config with a predicate is passed, only the cache keys matching the predicate will be re-fetched.
      */
-    refetchAllQueries: (config?: ApiHooksStore.RefetchConfig<TParam> | Array<UseToolsRefetchAllCacheKeyConfig<TParam>>) => void;
+    refetchAllQueries: (config?: UseToolsRefetchAllConfig<TParam> | Array<UseToolsRefetchAllCacheKeyConfig<TParam>>) => void;
+    /**
+     * Fetches a query for this endpoint ahead of time (i.e. when a link is hovered), so that a `useQuery` with the same params is an instant cache hit. Uses the same cache key, caching and mock endpoint rules as `useQuery`, nothing will be fetched if the cached data is still valid.
+     * - Never rejects, any errors are stored in state and the query will be re-tried when it's used.
+     * @param params (optional) The query params
+     * @param settings (optional) Query settings to apply over the application and endpoint level settings
+     */
+    prefetch: (params?: TParam, settings?: ApiHooksClient.FetchQuerySettings<TParam>) => Promise<void>;
   };
 
   /** UTILITY FUNCTIONS */
@@ -604,6 +884,22 @@ export namespace ApiHooks {
     console.warn(...messages);
   }
 
+  /** QUERY RUNNERS */
+
+  /**
+   * The query runners of each endpoint, keyed by the hooks object returned from the `create` functions so that they can be registered with a query client
+   */
+  const queryRunnerLibraries = new WeakMap<object, { [endpointKey: string]: ApiHooksClient.QueryRunner }>();
+
+  /**
+   * Retrieves the query runners of the endpoints in a hooks object, used by the query client to fetch queries outside of React components.
+   * @param hooks The hooks returned by the `create` or `createMulti` functions
+   * @returns A dictionary of query runners, keyed by endpoint hash (in format `controller.endpoint`)
+   */
+  export function getQueryRunners(hooks: object): { [endpointKey: string]: ApiHooksClient.QueryRunner } {
+    return queryRunnerLibraries.get(hooks) ?? {};
+  }
+
   /** CREATION FUNCTIONS */
 
   /**
@@ -633,9 +929,10 @@ export namespace ApiHooks {
    * @param hookConfig The dictionary of config - populated in `../endpointSettings.ts`
    * @param mockEndpointLibrary The dictionary of mock endpoints - populated in `../mockEndpoints.ts`
    * @param defaultDataLibrary The dictionary of default data - populated in `../defaultData.ts`
+   * @param queryRunners The dictionary to add the query runner of each endpoint to, so that they can be registered with a query client
    * @returns The useQuery and useMutation hooks
    */
-  function createHooks<TController extends object, TProcessingResponse = undefined>(
+  function createHooks<TController extends object, TProcessingResponse = undefined, TError = any>(
     rootKey: string,
     controller: TController,
     rootQuerySettings: UseQueryConfigSettings<any, any>,
@@ -644,12 +941,13 @@ export namespace ApiHooks {
     hookConfig: HookConfigControllerLibrary<TController>,
     mockEndpointLibrary: MockEndpointControllerLibrary<TController>,
     defaultDataLibrary: DefaultDataControllerLibrary<TController>,
+    queryRunners: { [endpointKey: string]: ApiHooksClient.QueryRunner },
     generalConfig?: GeneralConfig,
-    processingHook?: ProcessingHook<TProcessingResponse>,
+    processingHook?: ProcessingHook<TProcessingResponse, any, TError>,
     preProcessorHook?: PreProcessorHook
   ) {
     // Reduce the controller endpoints to produce an object for each one with the two hooks on it.
-    return Object.keys(controller).reduce<EndpointHooks<TController, TProcessingResponse>>((incomingControllerDictionary, endpointKey) => {
+    return Object.keys(controller).reduce<EndpointHooks<TController, TProcessingResponse, TError>>((incomingControllerDictionary, endpointKey) => {
       // A string unique to the endpoint - combines the controller and endpoint names
       const endpointHash = `${rootKey}.${endpointKey}`;
 
@@ -665,9 +963,24 @@ export namespace ApiHooks {
       const requestSettings: Partial<UseRequestSettings<any, any>> = hookConfig[endpointKey]?.request ?? {};
       const combinedRequestSettings = Objects.mergeDeep(rootRequestSettings, requestSettings);
 
+      // register the endpoint level normaliser if available, so that the entities in the responses are stored in the shared entity tables
+      const normaliser = hookConfig[endpointKey]?.normaliser;
+      if (normaliser) {
+        ApiHooksEntities.registerNormaliser(endpointHash, normaliser);
+      }
+
       // create two promise factories - one returns the actual endpoint promise, the other returns the mock endpoint if it's been created
-      const promiseFactory = (arg: any) => controller[endpointKey](arg);
-      const mockPromiseFactory = mockEndpointLibrary[endpointKey] && ((arg: any, testKey?: string) => mockEndpointLibrary[endpointKey](arg, testKey));
+      // if an abort signal is available and the `passAbortSignal` general config is set, it's passed to the endpoint as the second argument (mock endpoints always receive it)
+      const { passAbortSignal } = generalConfig ?? {};
+      const promiseFactory = (arg: any, signal?: AbortSignal) => {
+        if (!signal || !passAbortSignal) {
+          return controller[endpointKey](arg);
+        }
+        return controller[endpointKey](arg, typeof passAbortSignal === 'function' ? passAbortSignal(signal) : { signal });
+      };
+      const mockPromiseFactory =
+        mockEndpointLibrary[endpointKey] &&
+        ((arg: any, testKey?: string, signal?: AbortSignal) => mockEndpointLibrary[endpointKey](arg, testKey, signal));
 
       // store an initial application started date/time
       const applicationStartedTimestamp = Date.now();
@@ -745,509 +1058,1260 @@ export namespace ApiHooks {
        * @param action A partial state to override the current
        * @returns The updated state
        */
-      const mutationFetchResponseReducer: React.Reducer<
-        Omit<UseMutationResponse<any, any, any>[1], 'processed'>,
-        Partial<Omit<UseMutationResponse<any, any, any>[1], 'processed'>>
-      > = (state, action) => {
+      const mutationFetchResponseReducer: React.Reducer<MutationFetchResponse, Partial<MutationFetchResponse>> = (state, action) => {
         return { ...state, ...action };
       };
 
-      const controllerDictionary = { ...incomingControllerDictionary };
-      controllerDictionary[endpointKey] = {
+      /**
+       * Creates the state slice to show for a query that has nothing cached, from the default data or the initial data in the settings.
+       * - Shared by the useQuery and useQueries hooks, the returned state slice is stored in cache and flagged as a placeholder by the hook.
+       * @param settings The combined query settings, including the parameters
+       * @param paramHash A string representing the specific set of parameters passed to this data request
+       * @returns The placeholder state slice, or undefined if neither default data or initial data should be used
+       */
+      const createPlaceholderStateSlice = (
+        settings: UseQueryConfigSettings<any, any>,
+        paramHash: string
+      ): ApiHooksStore.StateSlice<any> | undefined => {
+        // check for default data settings and use that initially if appropriate.
+        if (settings.useDefaultData) {
+          const defaultDataFactory = defaultDataLibrary[endpointKey];
+          if (!defaultDataFactory) {
+            throw new Error(
+              `API Hooks error - no default data has been defined for the following query: ${endpointHash}, did you mean to set "useDefaultData" to "true"?`
+            );
+          }
+          const defaultDataValue = defaultDataFactory(settings.parameters);
+          queryLog([`Using default data`, { defaultData: defaultDataValue }], settings.debugKey);
+          return {
+            paramHash,
+            data: defaultDataValue,
+            status: 'loaded',
+            timestamp: applicationStartedTimestamp,
+            shouldRefetchData: undefined,
+            maxCachingDepth: settings.maxCachingDepth,
+          };
+        }
+        // check for "initialData" passed to hook, and use that on first render
+        if (settings.initialData) {
+          queryLog([`Using initial data`, { initialData: settings.initialData }], settings.debugKey);
+          return {
+            paramHash,
+            data: settings.initialData,
+            status: 'loaded',
+            timestamp: applicationStartedTimestamp,
+            shouldRefetchData: undefined,
+            maxCachingDepth: settings.maxCachingDepth,
+          };
+        }
+        return undefined;
+      };
+
+      /**
+       * Fetches the data for a query from the server and stores the result in the query client, regardless of caching.
+       * - Shared by the useQuery hook and the query client.
+       * @param client The query client to store the result in
+       * @param fetchSettings The combined query settings, including the parameters
+       * @param finalParamHash A string representing the specific set of parameters passed to this data request
+       * @param mode The fetching mode
+       * @param options (optional) The options passed from the useQuery hook
+       * @returns A promise of the response data, will reject if the request fails. If a request is already in progress for the same endpoint/cacheKey, it's promise will be returned instead.
+       */
+      const runQuery = (
+        client: ApiHooksClient.Client,
+        fetchSettings: UseQueryConfigSettings<any, any>,
+        finalParamHash: string,
+        mode: FetchingMode,
+        options: RunQueryOptions = {}
+      ): Promise<any> => {
+        const { dispatch } = client;
+        const testKeys = options.testKeys ?? client.testKeys;
+        const finalCacheKey = ApiHooksCaching.parseCacheKey(fetchSettings.parameters, fetchSettings.cacheKey);
+
+        // read the data stored for the same parameters before the loading action replaces the param hash, used by custom requests (i.e. to re-fetch every loaded page)
+        const storedData =
+          client.getState()[endpointHash]?.[finalCacheKey]?.paramHash === finalParamHash
+            ? ApiHooksEntities.getData(client.getState(), endpointHash, finalCacheKey)
+            : undefined;
+
+        // check the client's live fetching log to avoid simultaneous requests being fired before react has processed the state changes.
+        if (client.isFetching(endpointHash, finalCacheKey) && !fetchSettings.allowSimultaneousRequests) {
+          queryLog(
+            [
+              'Fetching aborted, request already in progress',
+              {
+                settings: fetchSettings,
+                paramHash: finalParamHash,
+                cacheKey: finalCacheKey,
+              },
+            ],
+            fetchSettings.debugKey
+          );
+          return client.getFetchPromise(endpointHash, finalCacheKey) ?? Promise.resolve(undefined);
+        }
+        // set the endpoint to "fetching" in the live fetching log, to prevent duplicate requests from being fired on component load.
+        client.setFetching(endpointHash, finalCacheKey, true);
+        // pin the state slice if required, so that it's never evicted by the cache budget
+        client.setPinned(endpointHash, finalCacheKey, !!fetchSettings.caching?.pinned);
+
+        const execute = async () => {
+          queryLog(['Fetching', { settings: fetchSettings, paramHash: finalParamHash, cacheKey: finalCacheKey }], fetchSettings.debugKey);
+
+          // create the signal used to abort the request, see `client.abort`
+          const signal = client.createAbortSignal(endpointHash, finalCacheKey);
+
+          // wait for the render to finish if the query was started during render, dispatching would update the other components using the state slice
+          if (options.isRendering) {
+            await Promise.resolve();
+          }
+
+          // dispatch the loading action to change the fetching state
+          dispatch(ApiHooksStore.Actions.loading(endpointHash, finalParamHash, finalCacheKey, mode, fetchSettings.maxCachingDepth));
+
+          // call the pre-processor if it exists
+          const shouldContinue = options.preProcessor
+            ? await options.preProcessor({ hookType: 'query', endpointID: endpointHash, settings: fetchSettings })
+            : true;
+
+          // abort if pre-processor returns false
+          if (!shouldContinue) {
+            client.setFetching(endpointHash, finalCacheKey, false);
+            client.releaseAbortSignal(endpointHash, finalCacheKey, signal);
+            dispatch(ApiHooksStore.Actions.aborted(endpointHash, finalParamHash, finalCacheKey, fetchSettings.maxCachingDepth));
+            queryLog([`Query aborted by pre-processor`, { fetchSettings }], fetchSettings.debugKey);
+            return undefined;
+          }
+
+          ApiHooksEvents.onFetchStart.executeEventHooks(endpointHash, fetchSettings.parameters, 'query');
+          fetchSettings.onFetchStart?.(fetchSettings, mode);
+
+          // store a copy of the previous fetch params and data before they get overwritten with the new ones
+          const previousParams = { ...(options.previousParams ?? {}) };
+          const previousData =
+            'previousData' in options ? options.previousData : ApiHooksEntities.getData(client.getState(), endpointHash, finalCacheKey);
+          options.onRequest?.(fetchSettings);
+
+          // set up a try/catch - we're about to make the actual request
+          let value: any;
+          let error: any;
+          let attempt = 1;
+          try {
+            // fetch the data value from either the real or mock endpoint, depending on the settings
+            const useMockEndpoint = !!testKeys || !!fetchSettings.useMockEndpoints;
+            if (useMockEndpoint && !mockPromiseFactory) {
+              throw new Error(`API Hooks error - no mock endpoint has been defined for the following query: ${endpointHash}`);
+            }
+            // retry failed requests according to the retry settings, the state slice stays in it's loading state until the final attempt fails
+            const fetchPage: ApiHooksInfinite.PageFetcher = (parameters) => {
+              // a custom request may fetch several pages, stop as soon as the request has been aborted
+              if (signal?.aborted) {
+                throw new Error(`API Hooks - request aborted`);
+              }
+              return ApiHooksRetry.run(
+                fetchSettings.retry,
+                (currentAttempt) => {
+                  attempt = currentAttempt;
+                  return useMockEndpoint
+                    ? mockPromiseFactory(parameters, testKeys?.[endpointHash]?.testKey, signal)
+                    : promiseFactory(parameters, signal);
+                },
+                {
+                  signal,
+                  onRetry: (retryError, details) => {
+                    queryLog(['Fetch attempt failed, retrying', { error: retryError, ...details }], fetchSettings.debugKey);
+                    ApiHooksEvents.onFetchError.executeEventHooks(endpointHash, parameters, 'query', retryError, details);
+                  },
+                }
+              );
+            };
+            value = await (options.request ? options.request(fetchPage, fetchSettings, storedData) : fetchPage(fetchSettings.parameters));
+
+            // the request has been aborted, but the endpoint has ignored the signal - the response must be ignored
+            if (signal?.aborted) {
+              throw new Error(`API Hooks - request aborted`);
+            }
+
+            // send the data to the store by despatching the loaded action
+            queryLog(['Fetch successful, with result:', value], fetchSettings.debugKey);
+            const payload = fetchSettings.payloadModifier
+              ? fetchSettings.payloadModifier(previousData, value, previousParams, fetchSettings.parameters)
+              : value;
+            // keep the references of any unchanged parts of the stored data, if nothing has changed the stored data reference is kept (the state slice itself is still replaced with the new timestamp)
+            const data = fetchSettings.structuralSharing
+              ? Objects.replaceEqualDeep(ApiHooksEntities.getData(client.getState(), endpointHash, finalCacheKey), payload)
+              : payload;
+            // store the tags provided by the query against the data, so that mutations can invalidate it by tag
+            const tags =
+              typeof fetchSettings.providesTags === 'function'
+                ? fetchSettings.providesTags(payload, fetchSettings.parameters)
+                : fetchSettings.providesTags;
+            dispatch(
+              ApiHooksStore.Actions.loaded(endpointHash, finalParamHash, finalCacheKey, data, fetchSettings.maxCachingDepth, undefined, false, tags)
+            );
+            ApiHooksEvents.onFetchSuccess.executeEventHooks(endpointHash, fetchSettings.parameters, 'query', value);
+            fetchSettings.onFetchSuccess?.(value, fetchSettings);
+          } catch (e) {
+            // the request has been aborted, the client has already released it and set the "aborted" status, so there's nothing more to do.
+            if (signal?.aborted) {
+              queryLog(['Fetch aborted'], fetchSettings.debugKey);
+              return undefined;
+            }
+            // an error has been thrown by the server, catch it and set it in state, it will be re-thrown to the caller below.
+            error = e;
+            queryLog(['Fetch failed, with error:', error], fetchSettings.debugKey);
+            dispatch(ApiHooksStore.Actions.error(endpointHash, finalParamHash, finalCacheKey, error, fetchSettings.maxCachingDepth));
+            ApiHooksEvents.onFetchError.executeEventHooks(endpointHash, fetchSettings.parameters, 'query', error, { attempt, willRetry: false });
+            fetchSettings.onFetchError?.(error, fetchSettings);
+          } finally {
+            // aborted requests have already been released by the client, and a newer request for the same state slice may be in progress
+            if (!signal?.aborted) {
+              // set the request as finished fetching in the live fetching log so that future requests won't be aborted.
+              client.setFetching(endpointHash, finalCacheKey, false);
+              client.releaseAbortSignal(endpointHash, finalCacheKey, signal);
+              // if no component is using the data (i.e. it was prefetched by the query client), schedule it for garbage collection.
+              // requests started by a suspending component are skipped, the component isn't mounted until the data it's waiting for has loaded.
+              if (!options.isRendering && !client.isMounted(endpointHash, finalCacheKey)) {
+                client.scheduleGarbageCollection(endpointHash, finalCacheKey, fetchSettings.caching?.gcAfter);
+              }
+              fetchSettings.onFetchComplete?.(value, error, fetchSettings);
+              // run responder listeners
+              ApiHooksResponders.registeredQueryListeners
+                .filter((rl) => rl.endpointHash === endpointHash)
+                .forEach((rl) => {
+                  queryLog(['Executing query responder listener'], fetchSettings.debugKey);
+                  rl.callback({ data: value, error, cacheKey: finalCacheKey, params: fetchSettings.parameters, settings: fetchSettings });
+                });
+            }
+          }
+          if (error) {
+            throw error;
+          }
+          return value;
+        };
+
+        // store the promise so that duplicate requests can share it
+        const promise = execute();
+        client.trackFetchPromise(endpointHash, finalCacheKey, promise);
+        return promise;
+      };
+
+      // the query runner, registered with the query client so that it can fetch this endpoint outside of the hooks.
+      const queryRunner: ApiHooksClient.QueryRunner = {
+        getSettings: (settings) => Objects.mergeDeep(combinedQuerySettings, settings) as UseQueryConfigSettings<any, any>,
+        run: (client, settings, mode, testKeys) => runQuery(client, settings, ApiHooksCaching.hashParams(settings.parameters), mode, { testKeys }),
+        cacheBudget: generalConfig?.cacheBudget,
+      };
+      // eslint-disable-next-line no-param-reassign
+      queryRunners[endpointHash] = queryRunner;
+
+      /**
+       * The query hook shared by useQuery and useInfiniteQuery
+       * - Receives the hook execution level settings to override the system, application and hook level, and the query mode
+       * - Returns the useQuery response, followed by the page fetching tools (which only fetch pages in infinite mode)
+       * - Can only be used within a React Function Component
+       */
+      const useQueryHook = (executionSettings: Partial<UseQuerySettings<any, any>>, queryMode: QueryMode): QueryHookResponse => {
+        /** MARK ENDPOINT AS USED */
+        React.useEffect(() => {
+          endpointUsed('query');
+        }, []);
+
+        /** GATHER DATA AND SETTINGS */
+
+        // get the query client and test keys from the client context - the state slice is read by subscribing to the client below, see `./client.ts`
+        const [client, testKeys] = React.useContext(ApiHooksStore.ClientContext);
+        const dispatch = client?.dispatch;
+
+        // register the query runner with the query client, so that it can fetch this endpoint outside of the hooks
+        React.useEffect(() => client?.registerQueryRunner(endpointHash, queryRunner), [client]);
+
+        // the page param functions of an infinite query, stored in a ref so that the page fetcher doesn't change when they do
+        const pageSettings = React.useRef<ApiHooksInfinite.Settings<any, any>>();
+        pageSettings.current = queryMode.type === 'infinite' ? queryMode.pageSettings : undefined;
+
+        // settings - apply the hook execution settings (if any) to the passed in system, application and endpoint level.
+        // NOTE - the JSON.stringify prevents the need for the consumer to memoize the incoming execution settings, it's not ideal, but it's only a small object so it should be ok.
+        const settingsFromHook = React.useMemo<UseQueryConfigSettings<any, any>>(() => {
+          return Objects.mergeDeep(combinedQuerySettings, executionSettings) as UseQueryConfigSettings<any, any>;
+        }, [
+          JSON.stringify(executionSettings),
+          executionSettings?.onFetchComplete,
+          executionSettings?.onFetchError,
+          executionSettings?.onFetchStart,
+          executionSettings?.onFetchSuccess,
+        ]);
+
+        // retrieve the pre-processor if available
+        const preProcessor = preProcessorHook?.();
+
+        // cache key - retrieve any cache key value if one exists in the settings
+        const cacheKeyValueFromHook = React.useMemo(() => {
+          const { cacheKey, parameters } = settingsFromHook;
+          return ApiHooksCaching.parseCacheKey(parameters, cacheKey);
+        }, [settingsFromHook]);
+
+        // parameters - create a unique string from the parameters used in the request - this allows us to detect whether the params of a request have changed and re-invoke
+        const paramHashFromHook = React.useMemo<string>(() => {
+          return ApiHooksCaching.hashParams(settingsFromHook.parameters);
+        }, [settingsFromHook]);
+
+        // storing the cache key in state means we can update it if the parameters change - either through the hook settings or a manual invoke
+        const [cacheKey, setCacheKey] = React.useState<string>(cacheKeyValueFromHook);
+
+        // store the last used fetch settings in a ref so that they can be passed to the processing hook.
+        const lastUsedSettings = React.useRef<UseQuerySettings<any, any>>();
+
+        // first render ref - for update effect
+        const isFirstRender = React.useRef(true);
+
+        // selector - the latest select function is stored in a ref so that inline functions don't need to be memoized by the consumer
+        const select = React.useRef(executionSettings.select ?? settingsFromHook.select);
+        select.current = executionSettings.select ?? settingsFromHook.select;
+
+        // enabled - evaluated on every render from the latest setting, so that inline predicates don't need to be memoized by the consumer
+        const enabled = executionSettings.enabled ?? settingsFromHook.enabled;
+        const isEnabled = typeof enabled === 'function' ? enabled(settingsFromHook.parameters ?? {}) : enabled !== false;
+
+        // the last selected value, compared with newly selected values to decide whether the component needs to re-render
+        const lastSelected = React.useRef<{ data?: any; selector?: (data: any) => any; selected?: any }>();
+
         /**
-         * useQuery
-         * - The hook to be used if the endpoint is a GET and should interface with the caching system
-         * - Receives the hook execution level settings to override the system, application and hook level.
-         * - Returns the live data and an optional fetch method to manually invoke
-         * - Can only be used within a React Function Component
+         * Derives the selected value from some cached data, sharing structure with the last selected value so that it can be compared by reference
          */
-        useQuery: (executionSettings: Partial<UseQuerySettings<any, any>> = {}): UseQueryResponse<any, any, any> => {
-          /** MARK ENDPOINT AS USED */
-          React.useEffect(() => {
-            endpointUsed('query');
-          }, []);
+        const selectData = React.useCallback((data: any) => {
+          if (!select.current || data === undefined) {
+            return data;
+          }
+          if (lastSelected.current && lastSelected.current.data === data && lastSelected.current.selector === select.current) {
+            return lastSelected.current.selected;
+          }
+          const selected = Objects.replaceEqualDeep(lastSelected.current?.selected, select.current(data));
+          lastSelected.current = { data, selector: select.current, selected };
+          return selected;
+        }, []);
+
+        // state - subscribe to the state slice for this endpoint/cacheKey. If a selector is being used, changes to the data will only re-render if the selected value has changed
+        const cachedStateSlice = ApiHooksStore.useStateSlice(client, endpointHash, cacheKey, (previous, next) => {
+          if (!select.current || !previous || !next) {
+            return true;
+          }
+          return (
+            previous.status !== next.status ||
+            previous.error !== next.error ||
+            previous.paramHash !== next.paramHash ||
+            previous.shouldRefetchData !== next.shouldRefetchData ||
+            selectData(previous.data) !== selectData(next.data)
+          );
+        });
 
-          /** GATHER DATA AND SETTINGS */
+        // state - Fetch the state slice from the global state object (if exists) based on the cache key value if passed, or the default cache key
+        // if nothing is cached, the default data or initial data is used (if any)
+        const storedStateSlice = React.useMemo<ApiHooksStore.StateSlice<any> | undefined>(
+          () => cachedStateSlice ?? createPlaceholderStateSlice(settingsFromHook, paramHashFromHook),
+          [cachedStateSlice, cacheKey, settingsFromHook]
+        );
 
-          // listen to the context from the store - this state is updated via the central reducer - see `./store.tsx`
-          const [state, dispatch, testKeys] = React.useContext(ApiHooksStore.Context);
+        /**
+         * Effect to handle the cache key changing without a re-mount.
+         * - Essentially forces a virtual re-mount with the new state slice
+         */
+        React.useLayoutEffect(() => {
+          isFirstRender.current = true;
+          setCacheKey(cacheKeyValueFromHook);
+        }, [cacheKeyValueFromHook]);
 
-          // settings - apply the hook execution settings (if any) to the passed in system, application and endpoint level.
-          // NOTE - the JSON.stringify prevents the need for the consumer to memoize the incoming execution settings, it's not ideal, but it's only a small object so it should be ok.
-          const settingsFromHook = React.useMemo<UseQueryConfigSettings<any, any>>(() => {
-            return Objects.mergeDeep(combinedQuerySettings, executionSettings) as UseQueryConfigSettings<any, any>;
-          }, [
-            JSON.stringify(executionSettings),
-            executionSettings?.onFetchComplete,
-            executionSettings?.onFetchError,
-            executionSettings?.onFetchStart,
-            executionSettings?.onFetchSuccess,
-          ]);
+        /**
+         * Effect to set default data to state
+         */
+        React.useLayoutEffect(() => {
+          if (storedStateSlice && !cachedStateSlice) {
+            // To get here, we must have returned some default data that isn't stored in cache. We need to store it now.
+            queryLog([`Storing initial data in cache`, { state: storedStateSlice }], settingsFromHook.debugKey);
+            dispatch?.(
+              ApiHooksStore.Actions.loaded(
+                endpointHash,
+                storedStateSlice.paramHash,
+                cacheKey,
+                storedStateSlice.data,
+                settingsFromHook?.maxCachingDepth,
+                undefined,
+                true,
+                undefined,
+                true
+              )
+            );
+          }
+        }, [cachedStateSlice, cacheKey, storedStateSlice]);
 
-          // retrieve the pre-processor if available
-          const preProcessor = preProcessorHook?.();
+        /** CACHE READER */
 
-          // cache key - retrieve any cache key value if one exists in the settings
-          const cacheKeyValueFromHook = React.useMemo(() => {
-            const { cacheKey, parameters } = settingsFromHook;
-            return ApiHooksCaching.parseCacheKey(parameters, cacheKey);
-          }, [settingsFromHook]);
+        /**
+         * Reads the caching settings and data to ascertain whether the data is valid in it's current state.
+         */
+        const isCacheValid = React.useMemo<boolean>(() => {
+          let valid = false;
+          let validOnError = false;
+          if (storedStateSlice?.data) {
+            // it's safe to cast this out of partial here, as we know the system defaults have been loaded
+            const cachingSettings = settingsFromHook.caching as ApiHooksCaching.Settings<any>;
+            valid = !ApiHooksCaching.isStale(storedStateSlice, cachingSettings.staleIfOlderThan);
+            validOnError = !ApiHooksCaching.isStale(storedStateSlice, cachingSettings.staleOnErrorIfOlderThan);
+          }
+          queryLog(
+            [
+              `Cache validity loaded/updated`,
+              {
+                settings: settingsFromHook,
+                valid,
+                validOnError,
+              },
+            ],
+            settingsFromHook.debugKey
+          );
+          if (storedStateSlice?.error || storedStateSlice?.status === 'aborted') {
+            return validOnError;
+          }
+          return valid;
+        }, [storedStateSlice, settingsFromHook]);
+
+        // selected data - the value to return as `data`, will be the full cached data if no selector is being used
+        const selectedData = selectData(storedStateSlice?.data);
+
+        /** FRESHNESS */
+
+        // re-render when the cached data is due to become stale, so that `isStale` is updated without waiting for another state change
+        const [staleCheckCount, checkStaleness] = React.useReducer((count: number) => count + 1, 0);
+        const { staleIfOlderThan } = settingsFromHook.caching as ApiHooksCaching.Settings<any>;
+        const isStale = React.useMemo<boolean>(
+          () => !cachedStateSlice || !!cachedStateSlice.shouldRefetchData || ApiHooksCaching.isStale(cachedStateSlice, staleIfOlderThan),
+          [cachedStateSlice, staleIfOlderThan, staleCheckCount]
+        );
+        React.useEffect(() => {
+          const staleAt = isStale ? undefined : ApiHooksCaching.getStaleAt(cachedStateSlice, staleIfOlderThan);
+          if (staleAt === undefined) {
+            return undefined;
+          }
+          const timeout = setTimeout(checkStaleness, staleAt - Date.now() + 1);
+          return () => clearTimeout(timeout);
+        }, [isStale, cachedStateSlice?.timestamp, staleIfOlderThan]);
+
+        // value - create the data value to return from the state slice
+        const valueToReturn = React.useMemo<DistributiveOmit<UseQueryResponse<any, any, any>[0], 'processed' | 'retry'>>(() => {
+          queryLog(
+            [
+              `Current state loaded/updated`,
+              {
+                settings: settingsFromHook,
+                cacheData: storedStateSlice ?? 'none',
+                cacheKey,
+              },
+            ],
+            settingsFromHook.debugKey
+          );
+          const isFetching =
+            storedStateSlice?.status === 'loading-auto' ||
+            storedStateSlice?.status === 'loading-manual' ||
+            storedStateSlice?.status === 'loading-refetch';
+          const hasCachedData = cachedStateSlice?.data !== undefined && !cachedStateSlice.isPlaceholder;
+          return {
+            status: ApiHooksStore.liveStatusFromStateSliceStatus(storedStateSlice?.status, selectedData, storedStateSlice?.error),
+            error: storedStateSlice?.error,
+            isFetching,
+            isLoading: isFetching && !hasCachedData,
+            isRefetching: isFetching && hasCachedData,
+            isStale,
+            isPlaceholder: !hasCachedData && storedStateSlice?.data !== undefined,
+            dataUpdatedAt: hasCachedData ? cachedStateSlice?.timestamp : undefined,
+            errorUpdatedAt: storedStateSlice?.errorTimestamp,
+            fetchingMode: ApiHooksStore.fetchingModeFromStateSliceStatus(storedStateSlice?.status),
+            data: selectedData,
+            endpointID: endpointHash,
+          };
+        }, [storedStateSlice, cachedStateSlice, selectedData, settingsFromHook, isStale]);
 
-          // parameters - create a unique string from the parameters used in the request - this allows us to detect whether the params of a request have changed and re-invoke
-          const paramHashFromHook = React.useMemo<string>(() => {
-            return ApiHooksCaching.hashParams(settingsFromHook.parameters);
-          }, [settingsFromHook]);
+        /** FETCHERS AND INVOKERS */
 
-          // storing the cache key in state means we can update it if the parameters change - either through the hook settings or a manual invoke
-          const [cacheKey, setCacheKey] = React.useState<string>(cacheKeyValueFromHook);
+        // fetcher - the fetch method - attempts to retrieve data from server, regardless of caching
+        const fetch = React.useCallback<(fetchSettings: typeof settingsFromHook, finalParamHash: string, mode: FetchingMode) => Promise<any>>(
+          (fetchSettings, finalParamHash, mode = 'auto') => {
+            // get the new cache key if applicable, and set it to state, thus potentially updating the state slice returned from the hook.
+            const finalCacheKey = ApiHooksCaching.parseCacheKey(fetchSettings.parameters, fetchSettings.cacheKey);
+            setCacheKey(finalCacheKey);
 
-          // store the last used fetch settings in a ref so that they can be passed to the processing hook.
-          const lastUsedSettings = React.useRef<UseQuerySettings<any, any>>();
-
-          // first render ref - for update effect
-          const isFirstRender = React.useRef(true);
-
-          // state - Fetch the state slice from the global state object (if exists) based on the cache key value if passed, or the default cache key
-          const storedStateSlice = React.useMemo<ApiHooksStore.StateSlice<any>>(() => {
-            const currentStoredStateSlice = state[endpointHash]?.[cacheKey];
-            // check for default data settings and use that initially if appropriate.
-            if (!currentStoredStateSlice && settingsFromHook.useDefaultData) {
-              const defaultDataFactory = defaultDataLibrary[endpointKey];
-              if (!defaultDataFactory) {
-                throw new Error(
-                  `API Hooks error - no default data has been defined for the following query: ${endpointHash}, did you mean to set "useDefaultData" to "true"?`
-                );
+            if (!client) {
+              queryLog(
+                ['Fetching aborted, no query client found - is the hook being used within an `ApiHooksStore.Provider`?'],
+                fetchSettings.debugKey
+              );
+              // the error is swallowed here, unless the caller of the manual invoke handles it
+              const rejection = Promise.reject(new Error(`API Hooks error - no query client found for the following query: ${endpointHash}`));
+              rejection.catch(() => undefined);
+              return rejection;
+            }
+
+            // abort any request still in progress for the state slice with different params, its response is no longer needed (i.e. a search term has changed)
+            if (client.isFetching(endpointHash, finalCacheKey) && client.getState()[endpointHash]?.[finalCacheKey]?.paramHash !== finalParamHash) {
+              if (client.abort(endpointHash, finalCacheKey)) {
+                queryLog(['Previous request aborted, params have changed', { paramHash: finalParamHash }], fetchSettings.debugKey);
               }
-              const defaultDataValue = defaultDataFactory(settingsFromHook.parameters);
-              queryLog([`Using default data`, { defaultData: defaultDataValue }], settingsFromHook.debugKey);
-              return {
-                paramHash: paramHashFromHook,
-                data: defaultDataValue,
-                status: 'loaded',
-                timestamp: applicationStartedTimestamp,
-                shouldRefetchData: undefined,
-                maxCachingDepth: settingsFromHook.maxCachingDepth,
-              };
             }
-            // check for "initialData" passed to hook, and use that on first render
-            if (!currentStoredStateSlice && settingsFromHook.initialData) {
-              queryLog([`Using initial data`, { initialData: settingsFromHook.initialData }], settingsFromHook.debugKey);
-              return {
-                paramHash: paramHashFromHook,
-                data: settingsFromHook.initialData,
-                status: 'loaded',
-                timestamp: applicationStartedTimestamp,
-                shouldRefetchData: undefined,
-                maxCachingDepth: settingsFromHook.maxCachingDepth,
-              };
+
+            // run the query against the client, errors are stored in state so they're swallowed unless the caller of the manual invoke handles them.
+            const promise = runQuery(client, fetchSettings, finalParamHash, mode, {
+              preProcessor,
+              testKeys,
+              previousData: storedStateSlice?.data,
+              previousParams: lastUsedSettings.current?.parameters,
+              onRequest: (settings) => {
+                // store the final settings for the processing hook
+                lastUsedSettings.current = { ...settings };
+              },
+              // infinite queries re-fetch every loaded page
+              request: pageSettings.current ? ApiHooksInfinite.refetchPages : undefined,
+            });
+            promise.catch(() => undefined);
+            return promise;
+          },
+          [client, setCacheKey, storedStateSlice, testKeys, preProcessor]
+        );
+
+        // the page fetcher - only used by infinite queries, fetches the next/previous page with the last used settings and adds it to the stored pages
+        const fetchPage = React.useCallback(
+          async (direction: ApiHooksInfinite.Direction) => {
+            const fetchSettings = lastUsedSettings.current as UseQueryConfigSettings<any, any> | undefined;
+            if (
+              !client ||
+              !fetchSettings ||
+              !pageSettings.current ||
+              !ApiHooksInfinite.hasPage(pageSettings.current, storedStateSlice?.data, direction)
+            ) {
+              queryLog([`No ${direction} page to fetch`], settingsFromHook.debugKey);
+              return;
             }
-            return currentStoredStateSlice;
-          }, [state[endpointHash], cacheKey, settingsFromHook]);
+            queryLog([`Fetching ${direction} page`], settingsFromHook.debugKey);
+            await runQuery(client, fetchSettings, ApiHooksCaching.hashParams(fetchSettings.parameters), 'manual', {
+              preProcessor,
+              testKeys,
+              request: ApiHooksInfinite.fetchPage(direction),
+            }).catch(() => undefined);
+          },
+          [client, storedStateSlice, testKeys, preProcessor, settingsFromHook.debugKey]
+        );
 
-          /**
-           * Effect to handle the cache key changing without a re-mount.
-           * - Essentially forces a virtual re-mount with the new state slice
-           */
-          React.useLayoutEffect(() => {
-            isFirstRender.current = true;
-            setCacheKey(cacheKeyValueFromHook);
-          }, [cacheKeyValueFromHook]);
+        // invoke - called when the component mounts if autoInvoke = true, and from the manual invoke method
+        // checks whether data should be fetched based on cache settings, error status & whether the params have changed
+        // returns a promise of the fetched data, the request in progress, or the cached data if nothing needs to be fetched
+        const invoke = React.useCallback<
+          (param?: any, fetchSettings?: UseQueryFetchSettings<any>, mode?: FetchingMode, forceExclusiveParams?: boolean) => Promise<any>
+        >(
+          (param, fetchSettings, mode = 'auto', forceExclusiveParams = false) => {
+            // merge any params into existing settings passed from higher levels
+            const finalSettings = Objects.mergeDeep(settingsFromHook, { parameters: param || {} }) as typeof settingsFromHook;
+
+            // if the manual invoke has been used with a payload modifier, add it on here.
+            if (fetchSettings?.payloadModifier) {
+              finalSettings.payloadModifier = fetchSettings.payloadModifier;
+            }
 
-          /**
-           * Effect to set default data to state
-           */
-          React.useLayoutEffect(() => {
-            if (storedStateSlice && !state[endpointHash]?.[cacheKey]) {
-              // To get here, we must have returned some default data that isn't stored in cache. We need to store it now.
-              queryLog([`Storing initial data in cache`, { state: storedStateSlice }], settingsFromHook.debugKey);
-              dispatch?.(
-                ApiHooksStore.Actions.loaded(
-                  endpointHash,
-                  storedStateSlice.paramHash,
-                  cacheKey,
-                  storedStateSlice.data,
-                  settingsFromHook?.maxCachingDepth,
-                  undefined,
-                  true
-                )
+            // read force network setting, from query setting first, then fetch settings if present.
+            const forceNetwork = fetchSettings?.forceNetwork;
+
+            // is cache stale or absent?
+            const cacheIsStaleOrAbsent = !isCacheValid;
+
+            // check for bookmark parameters, and read the stored value if appropriate
+            if (finalSettings.caching?.bookmarkParameters && valueToReturn?.data && storedStateSlice?.paramHash && !cacheIsStaleOrAbsent) {
+              // get current values for incoming bookmark parameters, stripping out falsy values
+              const bookmarkPartial = ApiHooksCaching.parseBookmarksIntoParamPartial(
+                finalSettings.parameters,
+                finalSettings.caching.bookmarkParameters
               );
-            }
-          }, [state[endpointHash], cacheKey, storedStateSlice]);
 
-          /** CACHE READER */
+              // get previous values for incoming bookmarks
+              const parsedHash = JSON.parse(storedStateSlice.paramHash);
+              const previousValues = ApiHooksCaching.parseBookmarksIntoParamPartial(parsedHash, finalSettings.caching.bookmarkParameters);
 
-          /**
-           * Reads the caching settings and data to ascertain whether the data is valid in it's current state.
-           */
-          const isCacheValid = React.useMemo<boolean>(() => {
-            let valid = false;
-            let validOnError = false;
-            if (storedStateSlice?.data) {
-              // it's safe to cast this out of partial here, as we know the system defaults have been loaded
-              const cachingSettings = settingsFromHook.caching as ApiHooksCaching.Settings<any>;
-              valid = !ApiHooksCaching.isStale(storedStateSlice, cachingSettings.staleIfOlderThan);
-              validOnError = !ApiHooksCaching.isStale(storedStateSlice, cachingSettings.staleOnErrorIfOlderThan);
+              // Spread previous values first, and then incoming values where not falsy, to make sure incoming value wins where defined, but previous value wins where undefined.
+              finalSettings.parameters = Objects.mergeDeep(finalSettings.parameters || {}, previousValues, bookmarkPartial);
+              queryLog(
+                [
+                  'Loaded stored bookmark params where incoming param is undefined',
+                  { incomingBookmarks: bookmarkPartial, storedBookmarks: previousValues },
+                ],
+                finalSettings.debugKey
+              );
+            }
+
+            if (forceExclusiveParams && param) {
+              finalSettings.parameters = param;
             }
+
+            // create a new param hash for comparison, we should make sure we invoke if the params are different to what's cached.
+            const newParamHash = ApiHooksCaching.hashParams(finalSettings.parameters);
+
+            // create a set of booleans containing information about the current state of the request/caching.
+            const inErrorState = !!storedStateSlice?.error;
+            const alreadyFetching = !!valueToReturn?.isFetching;
+            const paramsAreDifferent = !!finalSettings.invokeOnParamChange && !!storedStateSlice && storedStateSlice.paramHash !== newParamHash;
+            const refetchTriggerSet = !!storedStateSlice?.shouldRefetchData;
+
+            // The logic which dictates whether to invoke a request, or whether we can use what we already have in cache.
+            const shouldLoad = (cacheIsStaleOrAbsent && !alreadyFetching) || inErrorState || paramsAreDifferent || forceNetwork || refetchTriggerSet;
+
             queryLog(
               [
-                `Cache validity loaded/updated`,
+                shouldLoad ? 'Invoking fetcher' : 'Cache loaded',
                 {
-                  settings: settingsFromHook,
-                  valid,
-                  validOnError,
+                  inErrorState,
+                  cacheIsStaleOrAbsent,
+                  alreadyFetching,
+                  paramsAreDifferent,
+                  forceNetwork,
+                  refetchTriggerSet,
                 },
               ],
-              settingsFromHook.debugKey
+              finalSettings.debugKey
             );
-            if (storedStateSlice?.error || storedStateSlice?.status === 'aborted') {
-              return validOnError;
+
+            if (shouldLoad) {
+              return fetch(finalSettings, newParamHash, mode);
             }
-            return valid;
-          }, [storedStateSlice, settingsFromHook]);
 
-          // value - create the data value to return from the state slice
-          const valueToReturn = React.useMemo<Omit<UseQueryResponse<any, any, any>[0], 'processed'>>(() => {
-            queryLog(
-              [
-                `Current state loaded/updated`,
-                {
-                  settings: settingsFromHook,
-                  cacheData: storedStateSlice ?? 'none',
-                  cacheKey,
-                },
-              ],
-              settingsFromHook.debugKey
+            // share the request in progress if there is one, otherwise the cached data is all we need
+            // the data is read from the cache key of the parameters invoked with, which may not be the state slice the hook is currently showing
+            const finalCacheKey = ApiHooksCaching.parseCacheKey(finalSettings.parameters, finalSettings.cacheKey);
+            return (
+              client?.getFetchPromise(endpointHash, finalCacheKey) ??
+              Promise.resolve(client ? ApiHooksEntities.getData(client.getState(), endpointHash, finalCacheKey) : undefined)
             );
-            return {
-              error: storedStateSlice?.error,
-              isFetching:
-                storedStateSlice?.status === 'loading-auto' ||
-                storedStateSlice?.status === 'loading-manual' ||
-                storedStateSlice?.status === 'loading-refetch',
-              fetchingMode: ApiHooksStore.fetchingModeFromStateSliceStatus(storedStateSlice?.status),
-              data: storedStateSlice?.data,
-              endpointID: endpointHash,
-            };
-          }, [storedStateSlice, settingsFromHook]);
-
-          /** FETCHERS AND INVOKERS */
-
-          // fetcher - the fetch method - attempts to retrieve data from server, regardless of caching
-          const fetch = React.useCallback<(fetchSettings: typeof settingsFromHook, finalParamHash: string, mode: FetchingMode) => void>(
-            async (fetchSettings, finalParamHash, mode = 'auto') => {
-              // get the new cache key if applicable, and set it to state, thus potentially updating the state slice returned from the hook.
-              const finalCacheKey = ApiHooksCaching.parseCacheKey(fetchSettings.parameters, fetchSettings.cacheKey);
-              setCacheKey(finalCacheKey);
-
-              // check the global live fetching log to avoid simultaneous requests being fired before react has processed the state changes.
-              if (ApiHooksGlobal.isFetching(endpointHash, finalCacheKey) && !fetchSettings.allowSimultaneousRequests) {
-                queryLog(
-                  [
-                    'Fetching aborted, request already in progress',
-                    {
-                      settings: fetchSettings,
-                      paramHash: finalParamHash,
-                      cacheKey: finalCacheKey,
-                    },
-                  ],
-                  fetchSettings.debugKey
-                );
-                return;
+          },
+          [storedStateSlice, valueToReturn, settingsFromHook, fetch, isCacheValid, client]
+        );
+
+        // the manual invoke method is really just a proxy for invoke, with a bit of logging and settings application. returned as index 1 of the hook response for manual fetching
+        const manualInvoke = React.useCallback<UseQueryResponse<any, any, any>[1]>(
+          (...args) => {
+            queryLog(['Manual invoke triggered'], settingsFromHook.debugKey);
+            // apply default forceNetwork setting to manual invoke
+            const newArgs = [...args];
+            if (newArgs[1]?.forceNetwork === undefined) {
+              newArgs[1] = { ...(newArgs[1] || {}), forceNetwork: settingsFromHook.forceNetworkOnManualInvoke };
+            }
+            return invoke(newArgs[0], newArgs[1], 'manual');
+          },
+          [invoke, settingsFromHook]
+        );
+
+        // the manual state setter
+        const manualSet = React.useCallback<UseQueryResponse<any, any, any>[2]>(
+          (newState, overrideSettings) => {
+            const finalSettings = { ...settingsFromHook, ...(overrideSettings ?? {}) };
+            const finalCacheKey = ApiHooksCaching.parseCacheKey(finalSettings.parameters, finalSettings.cacheKey);
+            const finalParamHash = ApiHooksCaching.hashParams(finalSettings.parameters);
+            dispatch?.(ApiHooksStore.Actions.loaded(endpointHash, finalParamHash, finalCacheKey, newState, finalSettings.maxCachingDepth));
+          },
+          [settingsFromHook]
+        );
+
+        // the cancel method, aborts the request in progress for the state slice, returned as index 3 of the hook response
+        const cancel = React.useCallback<UseQueryResponse<any, any, any>[3]>(() => {
+          if (client?.abort(endpointHash, cacheKey)) {
+            queryLog(['Request cancelled'], settingsFromHook.debugKey);
+          }
+        }, [client, cacheKey, settingsFromHook.debugKey]);
+
+        /** FLOW MANAGEMENT EFFECTS */
+
+        // store the latest caching settings in a ref so that the garbage collection directive is up to date when the component un-mounts.
+        const cachingSettingsRef = React.useRef(settingsFromHook.caching);
+        cachingSettingsRef.current = settingsFromHook.caching;
+
+        // Manage endpoint mount status, and schedule garbage collection of the state slice when it's no longer used
+        React.useEffect(() => {
+          client?.setMounted(endpointHash, cacheKey);
+          if (settingsFromHook.caching.pinned) {
+            client?.setPinned(endpointHash, cacheKey, true);
+          }
+          return () => {
+            client?.setUnMounted(endpointHash, cacheKey);
+            if (!client?.isMounted(endpointHash, cacheKey)) {
+              // no other component needs the response of a request in progress
+              client?.abort(endpointHash, cacheKey);
+              client?.scheduleGarbageCollection(endpointHash, cacheKey, cachingSettingsRef.current.gcAfter);
+            }
+          };
+        }, [cacheKey, client]);
+
+        // Log the data as read whenever it changes, so that the least recently read data is evicted first by the cache budget
+        React.useEffect(() => {
+          if (storedStateSlice?.data !== undefined) {
+            client?.setRead(endpointHash, cacheKey);
+          }
+        }, [storedStateSlice?.data, cacheKey]);
+
+        /** INVOCATION TRIGGER EFFECTS */
+
+        // called when the component mounts, checks whether to invoke based on settings
+        React.useLayoutEffect(() => {
+          if (settingsFromHook.autoInvoke) {
+            queryLog(['Auto invoke triggered'], settingsFromHook.debugKey);
+            if (!isEnabled) {
+              queryLog(['Invoke held - query is not enabled', { settings: settingsFromHook }], settingsFromHook.debugKey);
+            } else if (
+              settingsFromHook.holdInvokeForCacheKeyParam &&
+              settingsFromHook.cacheKey &&
+              ApiHooksCaching.cacheKeyIsDefault(settingsFromHook.parameters, settingsFromHook.cacheKey)
+            ) {
+              queryLog(['Invoke held - cache key property has falsy value', { settings: settingsFromHook }], settingsFromHook.debugKey);
+            } else {
+              invoke().catch(() => undefined);
+            }
+          }
+        }, [!!settingsFromHook.autoInvoke, cacheKey]);
+
+        // called when the params passed into the hook CHANGE, but NOT on first run - sets the new params/cache key and fetches data if the settings allow.
+        React.useEffect(() => {
+          if (!isFirstRender.current) {
+            queryLog(['Parameters changed', { oldParams: storedStateSlice?.paramHash, newParams: paramHashFromHook }], settingsFromHook.debugKey);
+            if (settingsFromHook.invokeOnParamChange) {
+              if (!isEnabled) {
+                queryLog(['Fetch held - query is not enabled', { settings: settingsFromHook }], settingsFromHook.debugKey);
+              } else if (
+                settingsFromHook.holdInvokeForCacheKeyParam &&
+                settingsFromHook.cacheKey &&
+                ApiHooksCaching.cacheKeyIsDefault(settingsFromHook.parameters, settingsFromHook.cacheKey)
+              ) {
+                queryLog(['Fetch held - cache key property has falsy value', { settings: settingsFromHook }], settingsFromHook.debugKey);
+              } else {
+                fetch(settingsFromHook, paramHashFromHook, 'auto').catch(() => undefined);
+              }
+            }
+          }
+        }, [paramHashFromHook]);
+
+        // called when the query becomes enabled, but NOT on first run - invokes if the settings allow (i.e. a dependent query has received the ID it was waiting for)
+        React.useEffect(() => {
+          if (!isFirstRender.current && isEnabled && settingsFromHook.autoInvoke) {
+            queryLog(['Query enabled'], settingsFromHook.debugKey);
+            if (
+              settingsFromHook.holdInvokeForCacheKeyParam &&
+              settingsFromHook.cacheKey &&
+              ApiHooksCaching.cacheKeyIsDefault(settingsFromHook.parameters, settingsFromHook.cacheKey)
+            ) {
+              queryLog(['Invoke held - cache key property has falsy value', { settings: settingsFromHook }], settingsFromHook.debugKey);
+            } else {
+              invoke().catch(() => undefined);
+            }
+          }
+        }, [isEnabled]);
+
+        /** REFETCH QUERY TRIGGER EFFECTS */
+
+        // called when the entire cache is reset by a refetch query passed into a mutation
+        React.useEffect(() => {
+          if (!isFirstRender.current) {
+            if (storedStateSlice?.shouldRefetchData) {
+              let paramsToUse = lastUsedSettings.current?.parameters;
+              let forceExclusiveParams = false;
+              if (storedStateSlice.shouldRefetchData.params) {
+                switch (storedStateSlice.shouldRefetchData.paramMode ?? 'merge') {
+                  case 'merge':
+                    paramsToUse = Objects.mergeDeep(paramsToUse, storedStateSlice.shouldRefetchData.params);
+                    break;
+                  case 'replace':
+                    paramsToUse = storedStateSlice.shouldRefetchData.params;
+                    forceExclusiveParams = true;
+                    break;
+                  default:
+                    throw new Error(`Invalid param override mode sent to refetch query ${storedStateSlice.shouldRefetchData.paramMode}`);
+                }
               }
-              // set the endpoint to "fetching" in the live fetching log, to prevent duplicate requests from being fired on component load.
-              ApiHooksGlobal.setFetching(endpointHash, finalCacheKey, true);
+              queryLog(['Refetch triggered', { parameters: paramsToUse }], settingsFromHook.debugKey);
+              invoke(paramsToUse, undefined, 'refetch', forceExclusiveParams).catch(() => undefined);
+            }
+          }
+        }, [!!storedStateSlice?.shouldRefetchData]);
+
+        /** POLLING EFFECTS */
+
+        // store the latest invoke method in a ref so that the polling timer always fetches with the latest settings
+        const invokeRef = React.useRef(invoke);
+        invokeRef.current = invoke;
+
+        // calculate the refetch interval from the latest data, if it's a function
+        const refetchInterval =
+          typeof settingsFromHook.refetchInterval === 'function'
+            ? settingsFromHook.refetchInterval(storedStateSlice?.data)
+            : settingsFromHook.refetchInterval;
+
+        // called whenever a request finishes, schedules the next poll if the query has a refetch interval. Polling is paused whilst fetching, and whilst the document is hidden.
+        React.useEffect(() => {
+          if (!refetchInterval || valueToReturn.isFetching) {
+            return undefined;
+          }
+          const refetch = () => {
+            if (client?.isMounted(endpointHash, cacheKey)) {
+              queryLog(['Refetch interval elapsed', { refetchInterval }], settingsFromHook.debugKey);
+              invokeRef.current(undefined, { forceNetwork: true }, 'refetch').catch(() => undefined);
+            }
+          };
+          // wait for the document to become visible again before polling
+          const onVisibilityChange = () => {
+            if (document.visibilityState !== 'hidden') {
+              document.removeEventListener('visibilitychange', onVisibilityChange);
+              refetch();
+            }
+          };
+          const timeout = setTimeout(() => {
+            if (typeof document === 'undefined' || document.visibilityState !== 'hidden') {
+              refetch();
+              return;
+            }
+            queryLog(['Refetch interval paused, document is hidden'], settingsFromHook.debugKey);
+            document.addEventListener('visibilitychange', onVisibilityChange);
+          }, refetchInterval);
+          return () => {
+            clearTimeout(timeout);
+            if (typeof document !== 'undefined') {
+              document.removeEventListener('visibilitychange', onVisibilityChange);
+            }
+          };
+        }, [refetchInterval, valueToReturn.isFetching, storedStateSlice?.timestamp, cacheKey]);
+
+        /** FOCUS AND RECONNECT EFFECTS */
+
+        // called when the window regains focus, or the network comes back online - re-fetches the data if it's stale
+        const revalidate = React.useCallback(
+          (reason: 'focus' | 'reconnect') => {
+            const stateSlice = client?.getState()[endpointHash]?.[cacheKey];
+            const cachingSettings = cachingSettingsRef.current as ApiHooksCaching.Settings<any>;
+            // nothing to revalidate if the query has never been fetched (i.e. a manual query), or is already fetching
+            if (
+              !stateSlice ||
+              !client?.isMounted(endpointHash, cacheKey) ||
+              client?.isFetching(endpointHash, cacheKey) ||
+              !ApiHooksCaching.isStale(stateSlice, cachingSettings.staleIfOlderThan)
+            ) {
+              return;
+            }
+            queryLog([`Revalidating stale data on ${reason}`], settingsFromHook.debugKey);
+            invokeRef.current(undefined, { forceNetwork: true }, 'refetch').catch(() => undefined);
+          },
+          [client, cacheKey, settingsFromHook.debugKey]
+        );
 
-              queryLog(['Fetching', { settings: fetchSettings, paramHash: finalParamHash, cacheKey: finalCacheKey }], fetchSettings.debugKey);
+        React.useEffect(() => {
+          if (settingsFromHook.refetchOnFocus) {
+            return ApiHooksFocus.focusManager.subscribe(() => revalidate('focus'));
+          }
+          return undefined;
+        }, [settingsFromHook.refetchOnFocus, revalidate]);
 
-              // dispatch the loading action to change the fetching state
-              dispatch?.(ApiHooksStore.Actions.loading(endpointHash, finalParamHash, finalCacheKey, mode, fetchSettings.maxCachingDepth));
+        React.useEffect(() => {
+          if (settingsFromHook.refetchOnReconnect) {
+            return ApiHooksFocus.onlineManager.subscribe(() => revalidate('reconnect'));
+          }
+          return undefined;
+        }, [settingsFromHook.refetchOnReconnect, revalidate]);
 
-              // call the pre-processor if it exists
-              const shouldContinue = preProcessor
-                ? await preProcessor({ hookType: 'query', endpointID: endpointHash, settings: fetchSettings })
-                : true;
+        /** UTILS */
 
-              // abort if pre-processor returns false
-              if (!shouldContinue) {
-                ApiHooksGlobal.setFetching(endpointHash, finalCacheKey, false);
-                dispatch?.(ApiHooksStore.Actions.aborted(endpointHash, finalParamHash, finalCacheKey, fetchSettings.maxCachingDepth));
-                queryLog([`Query aborted by pre-processor`, { fetchSettings }], fetchSettings.debugKey);
-                return;
-              }
+        // mark the end of the first render - must come last
+        React.useEffect(() => {
+          isFirstRender.current = false;
+        }, [cacheKey]);
 
-              ApiHooksEvents.onFetchStart.executeEventHooks(endpointHash, fetchSettings.parameters, 'query');
-              fetchSettings.onFetchStart?.(fetchSettings, mode);
+        /** PROCESSING HOOK */
 
-              // store a copy of the previous fetch params before they get overwritten with the new ones
-              const previousParams = { ...(lastUsedSettings.current?.parameters ?? {}) };
+        const processingHookDetails = React.useMemo<ProcessingHookDetails<any, any>>(() => {
+          return {
+            endpointID: endpointHash,
+            fetchingMode: valueToReturn.fetchingMode,
+            hookType: 'query',
+            data: valueToReturn.data,
+            error: valueToReturn.error,
+            settings: lastUsedSettings.current,
+            fetch: manualInvoke,
+          };
+        }, [valueToReturn, lastUsedSettings.current, manualInvoke]);
+
+        const processed = processingHook?.(processingHookDetails);
+        React.useEffect(() => {
+          if (processingHook) {
+            queryLog([`Processing hook executed`, { hookType: 'query', data: storedStateSlice?.data, processed }], settingsFromHook.debugKey);
+          }
+        }, [storedStateSlice?.data]);
+
+        /** RETURN FROM HOOK */
+
+        // retry - re-fetches from the server regardless of any valid cache, the result is stored in the live response so a failed request isn't re-thrown
+        const retry = React.useCallback(() => {
+          manualInvoke(undefined, { forceNetwork: true }).catch(() => undefined);
+        }, [manualInvoke]);
+
+        const valueToReturnWithProcessed = React.useMemo(() => ({ ...valueToReturn, processed, retry }), [valueToReturn, processed, retry]);
+
+        /** SUSPENSE */
+
+        // in suspense mode, the request promise is thrown whilst there's no data (starting the request if it isn't already in progress, without dispatching during render), and the error is thrown for an error boundary.
+        // requests in progress are shared through the query client, so sibling components suspend on the same request rather than firing duplicates.
+        // aborted queries (i.e. cancelled by the pre-processor) don't suspend, otherwise every render would start a new request - the live response is returned instead.
+        if (
+          settingsFromHook.suspense &&
+          client &&
+          storedStateSlice?.data === undefined &&
+          storedStateSlice?.status !== 'aborted' &&
+          settingsFromHook.autoInvoke &&
+          isEnabled &&
+          !(
+            settingsFromHook.holdInvokeForCacheKeyParam &&
+            settingsFromHook.cacheKey &&
+            ApiHooksCaching.cacheKeyIsDefault(settingsFromHook.parameters, settingsFromHook.cacheKey)
+          )
+        ) {
+          if (storedStateSlice?.error) {
+            throw storedStateSlice.error;
+          }
+          const suspenseSettings = { ...settingsFromHook, parameters: settingsFromHook.parameters ?? {} };
+          const promise =
+            client.getFetchPromise(endpointHash, cacheKeyValueFromHook) ??
+            runQuery(client, suspenseSettings, ApiHooksCaching.hashParams(suspenseSettings.parameters), 'auto', {
+              preProcessor,
+              testKeys,
+              onRequest: (settings) => {
+                // store the final settings for the processing hook
+                lastUsedSettings.current = { ...settings };
+              },
+              request: pageSettings.current ? ApiHooksInfinite.refetchPages : undefined,
+              isRendering: true,
+            });
+          queryLog(['Suspended whilst fetching', { settings: settingsFromHook }], settingsFromHook.debugKey);
+          // the error is stored in state, and thrown on the next render
+          throw promise.then(
+            () => undefined,
+            () => undefined
+          );
+        }
 
-              // store the final settings for the processing hook
-              lastUsedSettings.current = { ...fetchSettings };
+        // return the state value and the fetch method from the hook, along with the page fetcher and which pages are available for infinite queries
+        const infiniteTools: InfiniteQueryTools = {
+          fetchPage,
+          hasNextPage: !!pageSettings.current && ApiHooksInfinite.hasPage(pageSettings.current, storedStateSlice?.data, 'next'),
+          hasPreviousPage: !!pageSettings.current && ApiHooksInfinite.hasPage(pageSettings.current, storedStateSlice?.data, 'previous'),
+        };
+        return [valueToReturnWithProcessed, manualInvoke, manualSet, cancel, infiniteTools];
+      };
 
-              // set up a try/catch - we're about to make the actual request
-              let value: any;
-              let error: any;
-              try {
-                // fetch the data value from either the real or mock endpoint, depending on the settings
-                if (testKeys || fetchSettings.useMockEndpoints) {
-                  if (!mockPromiseFactory) {
-                    throw new Error(`API Hooks error - no mock endpoint has been defined for the following query: ${endpointHash}`);
-                  }
-                  value = await mockPromiseFactory(fetchSettings.parameters, testKeys?.[endpointHash]?.testKey);
-                } else {
-                  value = await promiseFactory(fetchSettings.parameters);
-                }
+      const controllerDictionary = { ...incomingControllerDictionary };
+      controllerDictionary[endpointKey] = {
+        /**
+         * useQuery
+         * - The hook to be used if the endpoint is a GET and should interface with the caching system
+         * - Receives the hook execution level settings to override the system, application and hook level.
+         * - Returns the live data and an optional fetch method to manually invoke
+         * - Can only be used within a React Function Component
+         */
+        useQuery: (executionSettings: Partial<UseQuerySettings<any, any>> = {}): UseQueryResponse<any, any, any> => {
+          const [liveResponse, manualInvoke, manualSet, cancel] = useQueryHook(executionSettings, { type: 'standard' });
+          return [liveResponse, manualInvoke, manualSet, cancel];
+        },
+        /**
+         * useInfiniteQuery
+         * - The hook to be used if the endpoint is a paginated GET, and the pages should be loaded one after another (i.e. for infinite scrolling)
+         * - Built on the same query hook as useQuery, every loaded page is stored together in a single state slice
+         * - Receives the hook execution level settings, including the page param functions
+         * - Returns the live data (an array of pages) and the page fetchers
+         * - Can only be used within a React Function Component
+         */
+        useInfiniteQuery: (executionSettings: UseInfiniteQuerySettings<any, any, any>): UseInfiniteQueryResponse<any, any, any> => {
+          // store the pages in their own state slice, so that they never clash with a standard query on the same endpoint
+          const cacheKey = React.useMemo(
+            () => ApiHooksInfinite.createCacheKey(executionSettings.cacheKey ?? combinedQuerySettings.cacheKey),
+            [executionSettings.cacheKey]
+          );
 
-                // send the data to the store by despatching the loaded action
-                queryLog(['Fetch successful, with result:', value], fetchSettings.debugKey);
-                dispatch?.(
-                  ApiHooksStore.Actions.loaded(
-                    endpointHash,
-                    finalParamHash,
-                    finalCacheKey,
-                    fetchSettings.payloadModifier
-                      ? fetchSettings.payloadModifier(storedStateSlice?.data, value, previousParams, fetchSettings.parameters)
-                      : value,
-                    fetchSettings.maxCachingDepth
-                  )
-                );
-                ApiHooksEvents.onFetchSuccess.executeEventHooks(endpointHash, fetchSettings.parameters, 'query', value);
-                fetchSettings.onFetchSuccess?.(value, fetchSettings);
-              } catch (e) {
-                // an error has been thrown by the server, catch it and set it in state, otherwise throw it to the consumer.
-                error = e;
-                queryLog(['Fetch failed, with error:', error], fetchSettings.debugKey);
-                dispatch?.(ApiHooksStore.Actions.error(endpointHash, finalParamHash, finalCacheKey, error, fetchSettings.maxCachingDepth));
-                ApiHooksEvents.onFetchError.executeEventHooks(endpointHash, fetchSettings.parameters, 'query', error);
-                fetchSettings.onFetchError?.(error, fetchSettings);
+          const [liveResponse, refetch, , cancel, infiniteTools] = useQueryHook(
+            { ...executionSettings, cacheKey },
+            { type: 'infinite', pageSettings: executionSettings }
+          );
+
+          // store the direction of the page being fetched, so that the component can show a loader in the right place
+          const [fetchingDirection, setFetchingDirection] = React.useState<ApiHooksInfinite.Direction>();
+
+          const fetchPageInDirection = React.useCallback(
+            async (direction: ApiHooksInfinite.Direction) => {
+              setFetchingDirection(direction);
+              try {
+                await infiniteTools.fetchPage(direction);
               } finally {
-                // set the request as finished fetching in the live fetching log so that future requests won't be aborted.
-                ApiHooksGlobal.setFetching(endpointHash, finalCacheKey, false);
-                fetchSettings.onFetchComplete?.(value, error, fetchSettings);
-                // run responder listeners
-                ApiHooksResponders.registeredQueryListeners
-                  .filter((rl) => rl.endpointHash === endpointHash)
-                  .forEach((rl) => {
-                    queryLog(['Executing query responder listener'], fetchSettings.debugKey);
-                    rl.callback({ data: value, error, cacheKey: finalCacheKey, params: fetchSettings.parameters, settings: fetchSettings });
-                  });
+                setFetchingDirection(undefined);
               }
             },
-            [dispatch, setCacheKey, storedStateSlice, testKeys, preProcessor]
+            [infiniteTools.fetchPage]
           );
 
-          // invoke - called when the component mounts if autoInvoke = true, and from the manual invoke method
-          // checks whether data should be fetched based on cache settings, error status & whether the params have changed
-          const invoke = React.useCallback<
-            (param?: any, fetchSettings?: UseQueryFetchSettings<any>, mode?: FetchingMode, forceExclusiveParams?: boolean) => void
-          >(
-            (param, fetchSettings, mode = 'auto', forceExclusiveParams = false) => {
-              // merge any params into existing settings passed from higher levels
-              const finalSettings = Objects.mergeDeep(settingsFromHook, { parameters: param || {} }) as typeof settingsFromHook;
-
-              // if the manual invoke has been used with a payload modifier, add it on here.
-              if (fetchSettings?.payloadModifier) {
-                finalSettings.payloadModifier = fetchSettings.payloadModifier;
-              }
-
-              // read force network setting, from query setting first, then fetch settings if present.
-              const forceNetwork = fetchSettings?.forceNetwork;
+          const fetchNextPage = React.useCallback(() => fetchPageInDirection('next'), [fetchPageInDirection]);
+          const fetchPreviousPage = React.useCallback(() => fetchPageInDirection('previous'), [fetchPageInDirection]);
+
+          const infiniteLiveResponse = React.useMemo<UseInfiniteQueryResponse<any, any, any>[0]>(
+            () => ({
+              ...liveResponse,
+              hasNextPage: infiniteTools.hasNextPage,
+              hasPreviousPage: infiniteTools.hasPreviousPage,
+              isFetchingNextPage: fetchingDirection === 'next',
+              isFetchingPreviousPage: fetchingDirection === 'previous',
+            }),
+            [liveResponse, infiniteTools.hasNextPage, infiniteTools.hasPreviousPage, fetchingDirection]
+          );
 
-              // is cache stale or absent?
-              const cacheIsStaleOrAbsent = !isCacheValid;
+          return [infiniteLiveResponse, fetchNextPage, fetchPreviousPage, refetch, cancel];
+        },
+        /**
+         * useQueries
+         * - The hook to be used if the endpoint is a GET, and should be queried with a dynamic list of parameter sets (i.e. a detail card for each selected ID)
+         * - Each parameter set is cached by its own cacheKey, and uses the standard staleness and duplicate request logic, as if it were a separate useQuery
+         * - Receives the list of parameter sets, and the hook execution level settings shared by every query
+         * - Returns a live response for each parameter set, in the same order
+         * - Can only be used within a React Function Component
+         */
+        useQueries: (parameterSets: Partial<any>[], executionSettings: Partial<UseQuerySettings<any, any>> = {}): UseQueriesResponse<any> => {
+          /** MARK ENDPOINT AS USED */
+          React.useEffect(() => {
+            endpointUsed('query');
+          }, []);
 
-              // check for bookmark parameters, and read the stored value if appropriate
-              if (finalSettings.caching?.bookmarkParameters && valueToReturn?.data && storedStateSlice?.paramHash && !cacheIsStaleOrAbsent) {
-                // get current values for incoming bookmark parameters, stripping out falsy values
-                const bookmarkPartial = ApiHooksCaching.parseBookmarksIntoParamPartial(
-                  finalSettings.parameters,
-                  finalSettings.caching.bookmarkParameters
-                );
+          /** GATHER DATA AND SETTINGS */
 
-                // get previous values for incoming bookmarks
-                const parsedHash = JSON.parse(storedStateSlice.paramHash);
-                const previousValues = ApiHooksCaching.parseBookmarksIntoParamPartial(parsedHash, finalSettings.caching.bookmarkParameters);
-
-                // Spread previous values first, and then incoming values where not falsy, to make sure incoming value wins where defined, but previous value wins where undefined.
-                finalSettings.parameters = Objects.mergeDeep(finalSettings.parameters || {}, previousValues, bookmarkPartial);
-                queryLog(
-                  [
-                    'Loaded stored bookmark params where incoming param is undefined',
-                    { incomingBookmarks: bookmarkPartial, storedBookmarks: previousValues },
-                  ],
-                  finalSettings.debugKey
-                );
-              }
+          // get the query client and test keys from the client context
+          const [client, testKeys] = React.useContext(ApiHooksStore.ClientContext);
 
-              if (forceExclusiveParams && param) {
-                finalSettings.parameters = param;
-              }
+          // register the query runner with the query client, so that it can fetch this endpoint outside of the hooks
+          React.useEffect(() => client?.registerQueryRunner(endpointHash, queryRunner), [client]);
 
-              // create a new param hash for comparison, we should make sure we invoke if the params are different to what's cached.
-              const newParamHash = ApiHooksCaching.hashParams(finalSettings.parameters);
+          // settings - apply the hook execution settings (if any) to the passed in system, application and endpoint level, shared by every query.
+          const settingsFromHook = React.useMemo<UseQueryConfigSettings<any, any>>(() => {
+            return Objects.mergeDeep(combinedQuerySettings, executionSettings) as UseQueryConfigSettings<any, any>;
+          }, [
+            JSON.stringify(executionSettings),
+            executionSettings?.onFetchComplete,
+            executionSettings?.onFetchError,
+            executionSettings?.onFetchStart,
+            executionSettings?.onFetchSuccess,
+          ]);
 
-              // create a set of booleans containing information about the current state of the request/caching.
-              const inErrorState = !!storedStateSlice?.error;
-              const alreadyFetching = !!valueToReturn?.isFetching;
-              const paramsAreDifferent = !!finalSettings.invokeOnParamChange && !!storedStateSlice && storedStateSlice.paramHash !== newParamHash;
-              const refetchTriggerSet = !!storedStateSlice?.shouldRefetchData;
+          // retrieve the pre-processor if available
+          const preProcessor = preProcessorHook?.();
 
-              // The logic which dictates whether to invoke a request, or whether we can use what we already have in cache.
-              const shouldLoad =
-                (cacheIsStaleOrAbsent && !alreadyFetching) || inErrorState || paramsAreDifferent || forceNetwork || refetchTriggerSet;
+          // queries - the final settings, param hash and cache key for each parameter set
+          // NOTE - the JSON.stringify prevents the need for the consumer to memoize the incoming parameter sets.
+          const queries = React.useMemo(
+            () =>
+              parameterSets.map((parameters) => {
+                const settings = Objects.mergeDeep(settingsFromHook, { parameters: parameters ?? {} }) as UseQueryConfigSettings<any, any>;
+                return {
+                  settings,
+                  paramHash: ApiHooksCaching.hashParams(settings.parameters),
+                  cacheKey: ApiHooksCaching.parseCacheKey(settings.parameters, settings.cacheKey),
+                };
+              }),
+            [settingsFromHook, JSON.stringify(parameterSets)]
+          );
+          const cacheKeys = queries.map((query) => query.cacheKey);
+          const cacheKeysHash = JSON.stringify(cacheKeys);
 
-              queryLog(
-                [
-                  shouldLoad ? 'Invoking fetcher' : 'Cache loaded',
-                  {
-                    inErrorState,
-                    cacheIsStaleOrAbsent,
-                    alreadyFetching,
-                    paramsAreDifferent,
-                    forceNetwork,
-                    refetchTriggerSet,
-                  },
-                ],
-                finalSettings.debugKey
-              );
+          // state - subscribe to the state slice of each query
+          const stateSlices = ApiHooksStore.useStateSlices(client, endpointHash, cacheKeys);
 
-              if (shouldLoad) {
-                fetch(finalSettings, newParamHash, mode);
-              }
-            },
-            [storedStateSlice, valueToReturn, settingsFromHook, fetch, isCacheValid]
+          // state - the state slice of each query, or the default data or initial data for each query that has nothing cached (if any)
+          const storedStateSlices = React.useMemo(
+            () =>
+              stateSlices.map((stateSlice, index) => stateSlice ?? createPlaceholderStateSlice(queries[index].settings, queries[index].paramHash)),
+            [stateSlices, queries]
           );
 
-          // the manual invoke method is really just a proxy for invoke, with a bit of logging and settings application. returned as index 1 of the hook response for manual fetching
-          const manualInvoke = React.useCallback<UseQueryResponse<any, any, any>[1]>(
-            (...args) => {
-              queryLog(['Manual invoke triggered'], settingsFromHook.debugKey);
-              // apply default forceNetwork setting to manual invoke
-              const newArgs = [...args];
-              if (newArgs[1]?.forceNetwork === undefined) {
-                newArgs[1] = { ...(newArgs[1] || {}), forceNetwork: settingsFromHook.forceNetworkOnManualInvoke };
-              }
-              invoke(newArgs[0], newArgs[1], 'manual');
-            },
-            [invoke, settingsFromHook]
+          // enabled - evaluated for each parameter set on every render, so that inline predicates don't need to be memoized by the consumer
+          const enabled = executionSettings.enabled ?? settingsFromHook.enabled;
+          const enabledQueries = queries.map(({ settings }) =>
+            typeof enabled === 'function' ? enabled(settings.parameters ?? {}) : enabled !== false
           );
 
-          // the manual state setter
-          const manualSet = React.useCallback<UseQueryResponse<any, any, any>[2]>(
-            (newState, overrideSettings) => {
-              const finalSettings = { ...settingsFromHook, ...(overrideSettings ?? {}) };
-              const finalCacheKey = ApiHooksCaching.parseCacheKey(finalSettings.parameters, finalSettings.cacheKey);
-              const finalParamHash = ApiHooksCaching.hashParams(finalSettings.parameters);
-              dispatch?.(ApiHooksStore.Actions.loaded(endpointHash, finalParamHash, finalCacheKey, newState, finalSettings.maxCachingDepth));
-            },
-            [settingsFromHook]
-          );
+          // the latest queries are stored in a ref, so that the invocation effect below only runs when the queries change by value
+          const queriesRef = React.useRef(queries);
+          queriesRef.current = queries;
 
           /** FLOW MANAGEMENT EFFECTS */
 
-          // Manage endpoint mount status
+          // store the latest caching settings in a ref so that the garbage collection directive is up to date when the component un-mounts.
+          const cachingSettingsRef = React.useRef(settingsFromHook.caching);
+          cachingSettingsRef.current = settingsFromHook.caching;
+
+          // Manage endpoint mount status for each query, and schedule garbage collection of the state slices when they're no longer used
           React.useEffect(() => {
-            ApiHooksGlobal.setMounted(endpointHash, cacheKey);
-            return () => ApiHooksGlobal.setUnMounted(endpointHash, cacheKey);
-          }, [cacheKey]);
+            cacheKeys.forEach((cacheKey) => {
+              client?.setMounted(endpointHash, cacheKey);
+              if (settingsFromHook.caching.pinned) {
+                client?.setPinned(endpointHash, cacheKey, true);
+              }
+            });
+            return () => {
+              cacheKeys.forEach((cacheKey) => {
+                client?.setUnMounted(endpointHash, cacheKey);
+                if (!client?.isMounted(endpointHash, cacheKey)) {
+                  // no other component needs the response of a request in progress
+                  client?.abort(endpointHash, cacheKey);
+                  client?.scheduleGarbageCollection(endpointHash, cacheKey, cachingSettingsRef.current.gcAfter);
+                }
+              });
+            };
+          }, [cacheKeysHash, client]);
+
+          // store the default data or initial data of each query that has nothing cached, flagged as a placeholder
+          React.useLayoutEffect(() => {
+            storedStateSlices.forEach((storedStateSlice, index) => {
+              if (storedStateSlice && !stateSlices[index]) {
+                const { settings, cacheKey } = queries[index];
+                queryLog([`Storing initial data in cache`, { state: storedStateSlice }], settings.debugKey);
+                client?.dispatch(
+                  ApiHooksStore.Actions.loaded(
+                    endpointHash,
+                    storedStateSlice.paramHash,
+                    cacheKey,
+                    storedStateSlice.data,
+                    settings.maxCachingDepth,
+                    undefined,
+                    true,
+                    undefined,
+                    true
+                  )
+                );
+              }
+            });
+          }, [stateSlices, storedStateSlices]);
 
           /** INVOCATION TRIGGER EFFECTS */
 
-          // called when the component mounts, checks whether to invoke based on settings
-          React.useLayoutEffect(() => {
-            if (settingsFromHook.autoInvoke) {
-              queryLog(['Auto invoke triggered'], settingsFromHook.debugKey);
+          // called when the component mounts, when the queries change, and when a query is enabled or marked for refetching. Invokes each query that has no valid cache, if the settings allow.
+          // refetched queries are always fetched with their own parameter set, any params passed with the refetch are ignored.
+          React.useEffect(() => {
+            if (!client) {
+              queryLog(
+                ['Fetching aborted, no query client found - is the hook being used within an `ApiHooksStore.Provider`?'],
+                settingsFromHook.debugKey
+              );
+              return;
+            }
+            if (new Set(cacheKeys).size < cacheKeys.length) {
+              queryLog(
+                ['Several parameter sets share the same cache key, they will overwrite each other - is a `cacheKey` setting missing?', { cacheKeys }],
+                settingsFromHook.debugKey
+              );
+            }
+            queriesRef.current.forEach(({ settings, paramHash, cacheKey }, index) => {
+              const stateSlice = client.getState()[endpointHash]?.[cacheKey];
+              if (stateSlice?.shouldRefetchData) {
+                queryLog(['Refetch triggered', { parameters: settings.parameters }], settings.debugKey);
+                runQuery(client, settings, paramHash, 'refetch', { preProcessor, testKeys }).catch(() => undefined);
+                return;
+              }
+              if (!settings.autoInvoke) {
+                return;
+              }
+              if (!enabledQueries[index]) {
+                queryLog(['Invoke held - query is not enabled', { settings }], settings.debugKey);
+                return;
+              }
               if (
-                settingsFromHook.holdInvokeForCacheKeyParam &&
-                settingsFromHook.cacheKey &&
-                ApiHooksCaching.cacheKeyIsDefault(settingsFromHook.parameters, settingsFromHook.cacheKey)
+                settings.holdInvokeForCacheKeyParam &&
+                settings.cacheKey &&
+                ApiHooksCaching.cacheKeyIsDefault(settings.parameters, settings.cacheKey)
               ) {
-                queryLog(['Invoke held - cache key property has falsy value', { settings: settingsFromHook }], settingsFromHook.debugKey);
-              } else {
-                invoke();
+                queryLog(['Invoke held - cache key property has falsy value', { settings }], settings.debugKey);
+                return;
               }
-            }
-          }, [!!settingsFromHook.autoInvoke, cacheKey]);
-
-          // called when the params passed into the hook CHANGE, but NOT on first run - sets the new params/cache key and fetches data if the settings allow.
-          React.useEffect(() => {
-            if (!isFirstRender.current) {
-              queryLog(['Parameters changed', { oldParams: storedStateSlice?.paramHash, newParams: paramHashFromHook }], settingsFromHook.debugKey);
-              if (settingsFromHook.invokeOnParamChange) {
-                if (
-                  settingsFromHook.holdInvokeForCacheKeyParam &&
-                  settingsFromHook.cacheKey &&
-                  ApiHooksCaching.cacheKeyIsDefault(settingsFromHook.parameters, settingsFromHook.cacheKey)
-                ) {
-                  queryLog(['Fetch held - cache key property has falsy value', { settings: settingsFromHook }], settingsFromHook.debugKey);
-                } else {
-                  fetch(settingsFromHook, paramHashFromHook, 'auto');
-                }
+              // it's safe to cast this out of partial here, as we know the system defaults have been loaded
+              const cachingSettings = settings.caching as ApiHooksCaching.Settings<any>;
+              const directive =
+                stateSlice?.error || stateSlice?.status === 'aborted' ? cachingSettings.staleOnErrorIfOlderThan : cachingSettings.staleIfOlderThan;
+              if (stateSlice?.data && stateSlice.paramHash === paramHash && !ApiHooksCaching.isStale(stateSlice, directive)) {
+                queryLog(['Invoke skipped - cache is valid', { settings }], settings.debugKey);
+                return;
               }
-            }
-          }, [paramHashFromHook]);
-
-          /** REFETCH QUERY TRIGGER EFFECTS */
-
-          // called when the entire cache is reset by a refetch query passed into a mutation
-          React.useEffect(() => {
-            if (!isFirstRender.current) {
-              if (storedStateSlice?.shouldRefetchData) {
-                let paramsToUse = lastUsedSettings.current?.parameters;
-                let forceExclusiveParams = false;
-                if (storedStateSlice.shouldRefetchData.params) {
-                  switch (storedStateSlice.shouldRefetchData.paramMode ?? 'merge') {
-                    case 'merge':
-                      paramsToUse = Objects.mergeDeep(paramsToUse, storedStateSlice.shouldRefetchData.params);
-                      break;
-                    case 'replace':
-                      paramsToUse = storedStateSlice.shouldRefetchData.params;
-                      forceExclusiveParams = true;
-                      break;
-                    default:
-                      throw new Error(`Invalid param override mode sent to refetch query ${storedStateSlice.shouldRefetchData.paramMode}`);
-                  }
-                }
-                queryLog(['Refetch triggered', { parameters: paramsToUse }], settingsFromHook.debugKey);
-                invoke(paramsToUse, undefined, 'refetch', forceExclusiveParams);
+              // abort any request still in progress for the state slice with different params, its response is no longer needed (i.e. a parameter set has changed)
+              if (client.isFetching(endpointHash, cacheKey) && stateSlice?.paramHash !== paramHash && client.abort(endpointHash, cacheKey)) {
+                queryLog(['Previous request aborted, params have changed', { paramHash }], settings.debugKey);
               }
-            }
-          }, [!!storedStateSlice?.shouldRefetchData]);
-
-          /** UTILS */
-
-          // mark the end of the first render - must come last
-          React.useEffect(() => {
-            isFirstRender.current = false;
-          }, [cacheKey]);
-
-          /** PROCESSING HOOK */
+              runQuery(client, settings, paramHash, 'auto', { preProcessor, testKeys }).catch(() => undefined);
+            });
+          }, [
+            client,
+            JSON.stringify(queries.map(({ paramHash, cacheKey }) => [paramHash, cacheKey])),
+            JSON.stringify(enabledQueries),
+            JSON.stringify(stateSlices.map((stateSlice) => !!stateSlice?.shouldRefetchData)),
+          ]);
 
-          const processingHookDetails = React.useMemo<ProcessingHookDetails<any, any>>(() => {
-            return {
-              endpointID: endpointHash,
-              fetchingMode: valueToReturn.fetchingMode,
-              hookType: 'query',
-              data: valueToReturn.data,
-              error: valueToReturn.error,
-              settings: lastUsedSettings.current,
-              fetch: manualInvoke,
-            };
-          }, [valueToReturn, lastUsedSettings.current, manualInvoke]);
+          /** FRESHNESS */
 
-          const processed = processingHook?.(processingHookDetails);
+          // re-render when the first of the cached data sets is due to become stale, so that `isStale` is updated without waiting for another state change
+          const [staleCheckCount, checkStaleness] = React.useReducer((count: number) => count + 1, 0);
+          const { staleIfOlderThan } = settingsFromHook.caching as ApiHooksCaching.Settings<any>;
           React.useEffect(() => {
-            if (processingHook) {
-              queryLog([`Processing hook executed`, { hookType: 'query', data: storedStateSlice?.data, processed }], settingsFromHook.debugKey);
+            const staleAt = stateSlices
+              .map((stateSlice) => (stateSlice?.shouldRefetchData ? undefined : ApiHooksCaching.getStaleAt(stateSlice, staleIfOlderThan)))
+              .reduce<number | undefined>((first, next) => (next !== undefined && (first === undefined || next < first) ? next : first), undefined);
+            if (staleAt === undefined) {
+              return undefined;
             }
-          }, [storedStateSlice?.data]);
-
-          /** RETURN FROM HOOK */
-
-          const valueToReturnWithProcessed = React.useMemo(() => ({ ...valueToReturn, processed }), [valueToReturn, processed]);
-
-          // return the state value and the fetch method from the hook
-          return [valueToReturnWithProcessed, manualInvoke, manualSet];
+            const timeout = setTimeout(checkStaleness, staleAt - Date.now() + 1);
+            return () => clearTimeout(timeout);
+          }, [stateSlices, staleIfOlderThan, staleCheckCount]);
+
+          /** RESPONSE */
+
+          // the last selected value for each query, so that unchanged selected values keep their references
+          const lastSelected = React.useRef<{ data?: any; selected?: any }[]>([]);
+
+          return React.useMemo<UseQueriesResponse<any>>(() => {
+            const select = executionSettings.select ?? settingsFromHook.select;
+            return storedStateSlices.map((storedStateSlice, index) => {
+              const { settings, paramHash } = queries[index];
+              const stateSlice = stateSlices[index];
+              let data = storedStateSlice?.data;
+              if (select && data !== undefined) {
+                const previous = lastSelected.current[index];
+                data =
+                  previous && previous.data === storedStateSlice?.data
+                    ? previous.selected
+                    : Objects.replaceEqualDeep(previous?.selected, select(data));
+                lastSelected.current[index] = { data: storedStateSlice?.data, selected: data };
+              }
+              const isFetching =
+                storedStateSlice?.status === 'loading-auto' ||
+                storedStateSlice?.status === 'loading-manual' ||
+                storedStateSlice?.status === 'loading-refetch';
+              const hasCachedData = stateSlice?.data !== undefined && !stateSlice.isPlaceholder;
+              return {
+                status: ApiHooksStore.liveStatusFromStateSliceStatus(storedStateSlice?.status, data, storedStateSlice?.error),
+                error: storedStateSlice?.error,
+                isFetching,
+                isLoading: isFetching && !hasCachedData,
+                isRefetching: isFetching && hasCachedData,
+                isStale: !stateSlice || !!stateSlice.shouldRefetchData || ApiHooksCaching.isStale(stateSlice, staleIfOlderThan),
+                isPlaceholder: !hasCachedData && storedStateSlice?.data !== undefined,
+                dataUpdatedAt: hasCachedData ? stateSlice?.timestamp : undefined,
+                errorUpdatedAt: storedStateSlice?.errorTimestamp,
+                fetchingMode: ApiHooksStore.fetchingModeFromStateSliceStatus(storedStateSlice?.status),
+                data,
+                processed: undefined,
+                endpointID: endpointHash,
+                retry: () => {
+                  if (client) {
+                    queryLog(['Retry triggered', { parameters: settings.parameters }], settings.debugKey);
+                    runQuery(client, settings, paramHash, 'manual', { preProcessor, testKeys }).catch(() => undefined);
+                  }
+                },
+              };
+            });
+          }, [storedStateSlices, stateSlices, queries, staleCheckCount]);
         },
         /**
          * useMutation
@@ -1271,12 +2335,16 @@ export namespace ApiHooks {
             endpointID: endpointHash,
           });
 
-          // get the dispatcher and test keys from context
-          const [, dispatch, testKeys] = React.useContext(ApiHooksStore.Context);
+          // get the query client and test keys from context
+          const [client, testKeys] = React.useContext(ApiHooksStore.ClientContext);
+          const dispatch = client?.dispatch;
 
           // store the last used fetch settings in a ref so that they can be passed to the processing hook.
           const lastUsedSettings = React.useRef<UseMutationSettings<any, any>>();
 
+          // store the abort controllers of any requests in progress, so that they can be cancelled
+          const abortControllers = React.useRef<AbortController[]>([]);
+
           // retrieve the pre-processor if available
           const preProcessor = preProcessorHook?.();
 
@@ -1315,11 +2383,53 @@ export namespace ApiHooks {
                 } catch (error: any) {
                   throw new Error(`API Hooks Mutation Error, Endpoint: ${endpointHash} - ${error?.message ?? 'Refetch query failed'}`);
                 }
-                mutationLog([`Refetch query processed`, { query, finalCacheKeyValue }], settingsToUse.debugKey);
-                dispatch?.(ApiHooksStore.Actions.refetch(query.endpointHash, finalCacheKeyValue?.toString(), queryConfig));
+                // if the query has a predicate, refetch each state slice it matches, otherwise refetch the cache key (or whole endpoint)
+                const cacheKeyValues = ApiHooksCaching.cacheKeyValuesFromEndpointId(client?.getState() ?? {}, query, finalCacheKeyValue);
+                mutationLog([`Refetch query processed`, { query, finalCacheKeyValue, cacheKeyValues }], settingsToUse.debugKey);
+                for (const cacheKeyValue of cacheKeyValues ?? [undefined]) {
+                  dispatch?.(ApiHooksStore.Actions.refetch(query.endpointHash, cacheKeyValue, queryConfig));
+                }
               }
             },
-            [dispatch, settingsFromHook]
+            [dispatch, client, settingsFromHook]
+          );
+
+          // the method used to apply optimistic updates to query cache - adds a reference to each layer applied to the passed array so that it can be committed or rolled back.
+          // the layers are added as they're applied, so if an update throws, the layers already applied can still be rolled back.
+          const applyOptimisticUpdates = React.useCallback(
+            (settingsToUse: UseMutationSettings<any, any>, appliedLayers: ApiHooksOptimistic.AppliedLayer[]) => {
+              const { optimisticUpdates } = settingsToUse;
+              const parsedUpdates = typeof optimisticUpdates === 'function' ? optimisticUpdates(settingsToUse) : optimisticUpdates ?? [];
+              parsedUpdates.forEach((update) => {
+                let finalCacheKeyValue: string | number | undefined;
+                try {
+                  finalCacheKeyValue = ApiHooksCaching.cacheKeyValueFromRefetchQuery(
+                    settingsToUse.parameters,
+                    update.endpointId,
+                    settingsToUse.refetchQueryContext
+                  );
+                } catch (error: any) {
+                  throw new Error(`API Hooks Mutation Error, Endpoint: ${endpointHash} - ${error?.message ?? 'Optimistic update failed'}`);
+                }
+                const cacheKeyValue = finalCacheKeyValue?.toString() ?? ApiHooksCaching.defaultCacheKey;
+                const layerId = ApiHooksOptimistic.apply(
+                  client?.optimisticLayers ?? {},
+                  client?.getState() ?? {},
+                  dispatch,
+                  update.endpointId.endpointHash,
+                  cacheKeyValue,
+                  update.updater,
+                  settingsToUse.parameters
+                );
+                if (layerId === undefined) {
+                  mutationLog([`Optimistic update skipped, no cached data`, { update, cacheKeyValue }], settingsToUse.debugKey);
+                  return;
+                }
+                mutationLog([`Optimistic update applied`, { update, cacheKeyValue }], settingsToUse.debugKey);
+                appliedLayers.push({ endpointKey: update.endpointId.endpointHash, cacheKeyValue, layerId, onSuccess: update.onSuccess ?? 'keep' });
+              });
+            },
+            [dispatch, client]
           );
 
           // fetch method - detached from cache, calls API and returns a promise
@@ -1330,7 +2440,7 @@ export namespace ApiHooks {
 
               // set live response to loading
               mutationLog([`Fetch started`, { finalSettings }], finalSettings.debugKey);
-              setFetchStateResponse({ fetchingMode: 'manual', isFetching: true });
+              setFetchStateResponse({ status: 'loading-manual', fetchingMode: 'manual', isFetching: true });
 
               ApiHooksEvents.onFetchStart.executeEventHooks(endpointHash, finalSettings.parameters, 'mutation');
               finalSettings.onFetchStart?.(finalSettings, 'manual');
@@ -1342,7 +2452,7 @@ export namespace ApiHooks {
 
               // abort if pre-processor returns false
               if (!shouldContinue) {
-                setFetchStateResponse({ data: undefined, fetchingMode: 'aborted', isFetching: false });
+                setFetchStateResponse({ status: 'aborted', data: undefined, fetchingMode: 'aborted', isFetching: false });
                 mutationLog([`Mutation aborted by pre-processor`, { finalSettings }], finalSettings.debugKey);
                 return undefined;
               }
@@ -1350,21 +2460,73 @@ export namespace ApiHooks {
               // store final settings used for processing hook and refetch queries.
               lastUsedSettings.current = finalSettings;
 
+              // the provisional data applied to query cache, committed or rolled back once the request has finished
+              const optimisticLayers: ApiHooksOptimistic.AppliedLayer[] = [];
+
+              // create the abort controller used by the cancel method
+              const abortController = typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+              const signal = abortController?.signal;
+              if (abortController) {
+                abortControllers.current.push(abortController);
+              }
+
               // fetch the data value from either the real or mock endpoint, depending on the settings
               let value: any;
               let error: any;
+              let attempt = 1;
               try {
-                if (testKeys || finalSettings.useMockEndpoints) {
-                  if (!mockPromiseFactory) {
-                    throw new Error(`API Hooks error - no mock endpoint has been defined for the following mutation: ${endpointHash}`);
+                // apply any provisional data to query cache before the request is made, any layers applied before an update throws are rolled back below
+                applyOptimisticUpdates(finalSettings, optimisticLayers);
+
+                const useMockEndpoint = !!testKeys || !!finalSettings.useMockEndpoints;
+                if (useMockEndpoint && !mockPromiseFactory) {
+                  throw new Error(`API Hooks error - no mock endpoint has been defined for the following mutation: ${endpointHash}`);
+                }
+                // retry failed requests according to the retry settings, the live response stays in it's loading state until the final attempt fails
+                value = await ApiHooksRetry.run(
+                  finalSettings.retry,
+                  (currentAttempt) => {
+                    attempt = currentAttempt;
+                    return useMockEndpoint
+                      ? mockPromiseFactory(finalSettings.parameters, testKeys?.[endpointKey]?.testKey, signal)
+                      : promiseFactory(finalSettings.parameters, signal);
+                  },
+                  {
+                    signal,
+                    onRetry: (retryError, details) => {
+                      mutationLog([`Fetch attempt failed, retrying`, { error: retryError, ...details }], finalSettings.debugKey);
+                      ApiHooksEvents.onFetchError.executeEventHooks(endpointHash, finalSettings.parameters, 'mutation', retryError, details);
+                    },
+                  }
+                );
+
+                // the request has been cancelled, but the endpoint has ignored the signal - the response must be ignored
+                if (signal?.aborted) {
+                  throw new Error(`API Hooks - request aborted`);
+                }
+
+                // add any entities in the response to the entity tables, updating every query that contains them
+                if (ApiHooksEntities.getNormaliser(endpointHash)) {
+                  dispatch?.(ApiHooksStore.Actions.entities(endpointHash, value));
+                }
+
+                // confirm any provisional data, marking the query for a refetch where requested
+                for (const layer of optimisticLayers) {
+                  ApiHooksOptimistic.commit(
+                    client?.optimisticLayers ?? {},
+                    client?.getState() ?? {},
+                    dispatch,
+                    layer.endpointKey,
+                    layer.cacheKeyValue,
+                    layer.layerId
+                  );
+                  if (layer.onSuccess === 'refetch') {
+                    dispatch?.(ApiHooksStore.Actions.refetch(layer.endpointKey, layer.cacheKeyValue));
                   }
-                  value = await mockPromiseFactory(finalSettings.parameters, testKeys?.[endpointKey]?.testKey);
-                } else {
-                  value = await promiseFactory(finalSettings.parameters);
                 }
 
                 // set live response to success
-                setFetchStateResponse({ data: value, fetchingMode: 'not-fetching', isFetching: false, error: undefined });
+                setFetchStateResponse({ status: 'loaded', data: value, fetchingMode: 'not-fetching', isFetching: false, error: undefined });
                 mutationLog([`Fetch successful`, { finalSettings, response: value }], finalSettings.debugKey);
                 ApiHooksEvents.onFetchSuccess.executeEventHooks(endpointHash, finalSettings.parameters, 'mutation', value);
                 finalSettings.onFetchSuccess?.(value, finalSettings);
@@ -1373,22 +2535,57 @@ export namespace ApiHooks {
                 if (finalSettings.refetchQueries) {
                   refetchQueries(finalSettings.refetchQueries);
                 }
+
+                // mark every query providing an invalidated tag for a refetch
+                if (finalSettings.invalidatesTags) {
+                  const tags =
+                    typeof finalSettings.invalidatesTags === 'function'
+                      ? finalSettings.invalidatesTags(finalSettings, value)
+                      : finalSettings.invalidatesTags;
+                  mutationLog([`Tags invalidated`, { tags }], finalSettings.debugKey);
+                  dispatch?.(ApiHooksStore.Actions.invalidateTags(tags));
+                }
               } catch (e) {
+                // roll back any provisional data
+                for (const layer of optimisticLayers) {
+                  ApiHooksOptimistic.rollback(
+                    client?.optimisticLayers ?? {},
+                    client?.getState() ?? {},
+                    dispatch,
+                    layer.endpointKey,
+                    layer.cacheKeyValue,
+                    layer.layerId
+                  );
+                  mutationLog([`Optimistic update rolled back`, { layer }], finalSettings.debugKey);
+                }
+
+                // the request has been cancelled, the live response has already been set to "aborted" by the cancel method.
+                if (signal?.aborted) {
+                  mutationLog([`Fetch aborted`], finalSettings.debugKey);
+                  return undefined;
+                }
+
                 // set live response to failed
                 error = e;
-                setFetchStateResponse({ data: undefined, fetchingMode: 'not-fetching', isFetching: false, error });
+                setFetchStateResponse({ status: 'error', data: undefined, fetchingMode: 'not-fetching', isFetching: false, error });
                 mutationLog([`Fetch failed`, { error }], finalSettings.debugKey);
-                ApiHooksEvents.onFetchError.executeEventHooks(endpointHash, finalSettings.parameters, 'mutation', error);
+                ApiHooksEvents.onFetchError.executeEventHooks(endpointHash, finalSettings.parameters, 'mutation', error, {
+                  attempt,
+                  willRetry: false,
+                });
                 finalSettings.onFetchError?.(error, finalSettings);
               } finally {
-                finalSettings.onFetchComplete?.(value, error, finalSettings);
-                // run responder callbacks
-                ApiHooksResponders.registeredMutationListeners
-                  .filter((rl) => rl.endpointHash === endpointHash)
-                  .forEach((rl) => {
-                    mutationLog(['Executing mutation responder listener'], finalSettings.debugKey);
-                    rl.callback({ data: value, error, params: finalSettings.parameters, settings: finalSettings });
-                  });
+                abortControllers.current = abortControllers.current.filter((activeController) => activeController !== abortController);
+                if (!signal?.aborted) {
+                  finalSettings.onFetchComplete?.(value, error, finalSettings);
+                  // run responder callbacks
+                  ApiHooksResponders.registeredMutationListeners
+                    .filter((rl) => rl.endpointHash === endpointHash)
+                    .forEach((rl) => {
+                      mutationLog(['Executing mutation responder listener'], finalSettings.debugKey);
+                      rl.callback({ data: value, error, params: finalSettings.parameters, settings: finalSettings });
+                    });
+                }
               }
               // return the data, errors will be thrown for mutations and should be handled by the consuming component unless `throwErrors` is explicitly set to false in settings.
               if (error && finalSettings.throwErrors) {
@@ -1396,9 +2593,21 @@ export namespace ApiHooks {
               }
               return value;
             },
-            [settingsFromHook, refetchQueries, preProcessor]
+            [settingsFromHook, refetchQueries, applyOptimisticUpdates, preProcessor]
           );
 
+          // cancel method - aborts every request in progress from this hook, returned as index 3 of the hook response
+          const cancel = React.useCallback<UseMutationResponse<any, any, any>[3]>(() => {
+            if (!abortControllers.current.length) {
+              return;
+            }
+            const controllers = abortControllers.current;
+            abortControllers.current = [];
+            controllers.forEach((activeController) => activeController.abort());
+            setFetchStateResponse({ status: 'aborted', data: undefined, fetchingMode: 'aborted', isFetching: false });
+            mutationLog([`Request cancelled`], settingsFromHook.debugKey);
+          }, [settingsFromHook.debugKey]);
+
           const processingHookDetails = React.useMemo<ProcessingHookDetails<any, any>>(() => {
             return {
               endpointID: endpointHash,
@@ -1424,11 +2633,15 @@ export namespace ApiHooks {
 
           // compile the live response
           const liveResponse = React.useMemo<UseMutationResponse<any, any, any>[1]>(
-            () => ({ ...fetchStateResponse, processed }),
+            () => ({
+              ...fetchStateResponse,
+              status: ApiHooksStore.liveStatusFromStateSliceStatus(fetchStateResponse.status, fetchStateResponse.data, fetchStateResponse.error),
+              processed,
+            }),
             [fetchStateResponse, processed]
           );
 
-          return [fetch, liveResponse, refetchQueries];
+          return [fetch, liveResponse, refetchQueries, cancel];
         },
         /**
          * useRequest
@@ -1453,7 +2666,7 @@ export namespace ApiHooks {
           ]);
 
           // get any test keys
-          const [, , testKeys] = React.useContext(ApiHooksStore.Context);
+          const [, testKeys] = React.useContext(ApiHooksStore.ClientContext);
 
           // fetch method - detached from cache, calls API and returns a promise
           const fetch = React.useCallback<UseRequestResponse<any, any>>(
@@ -1489,7 +2702,10 @@ export namespace ApiHooks {
                 // set live response to failed
                 error = e;
                 requestLog([`Fetch failed`, { finalSettings, error }], finalSettings.debugKey);
-                ApiHooksEvents.onFetchError.executeEventHooks(endpointHash, finalSettings.parameters, 'request', error);
+                ApiHooksEvents.onFetchError.executeEventHooks(endpointHash, finalSettings.parameters, 'request', error, {
+                  attempt: 1,
+                  willRetry: false,
+                });
                 finalSettings.onFetchError?.(error, finalSettings);
               } finally {
                 finalSettings.onFetchComplete?.(value, error, finalSettings);
@@ -1518,37 +2734,58 @@ export namespace ApiHooks {
          * - Receives execution level settings only.
          */
         useTools: (executionSettings: UseToolsSettings = {}): UseToolsResponse<any> => {
-          const [state, dispatch] = React.useContext(ApiHooksStore.Context);
-          const myState = state[endpointHash];
+          const [client, testKeys] = React.useContext(ApiHooksStore.ClientContext);
 
           const debugKey = executionSettings?.debugKey;
 
           const refetchAllQueries = React.useCallback<UseToolsResponse<any>['refetchAllQueries']>(
             (config) => {
+              // read the state at the time of the refetch, so that the component doesn't need to re-render on every state change
+              const myState = client?.getState()[endpointHash];
               if (!myState) {
                 toolsLog(['Refetch triggered but no state for endpoint'], debugKey);
                 return;
               }
-              const cacheKeysToFetch = Array.isArray(config) && config.length ? config.map((c) => c.cacheKeyValue) : Object.keys(myState);
+              const { predicate, ...refetchConfig } = (!Array.isArray(config) && config) || {};
+              let cacheKeysToFetch: (string | number)[] = Object.keys(myState);
+              if (Array.isArray(config) && config.length) {
+                cacheKeysToFetch = config.map((c) => c.cacheKeyValue);
+              } else if (predicate) {
+                cacheKeysToFetch = ApiHooksCaching.cacheKeyValuesFromEndpointId(client?.getState() ?? {}, { endpointHash, predicate }) ?? [];
+              }
               for (const cacheKeyValue of cacheKeysToFetch) {
                 const myStateSlice = myState[cacheKeyValue];
                 if (!myStateSlice) {
                   toolsLog(['Refetch triggered but no state for endpoint with cacheKey value', { cacheKeyValue }], debugKey);
                   continue;
                 }
-                const myConfig = Array.isArray(config) ? config.find((c) => c.cacheKeyValue === cacheKeyValue) : config;
+                const myConfig = Array.isArray(config) ? config.find((c) => c.cacheKeyValue === cacheKeyValue) : config && refetchConfig;
                 toolsLog(['Processing refetch with config', { cacheKeyValue, config: myConfig }], debugKey);
-                dispatch?.(ApiHooksStore.Actions.refetch(endpointHash, cacheKeyValue.toString(), myConfig && { ...myConfig }));
+                client?.dispatch(ApiHooksStore.Actions.refetch(endpointHash, cacheKeyValue.toString(), myConfig && { ...myConfig }));
               }
             },
-            [myState, debugKey]
+            [client, debugKey]
           );
 
-          return { refetchAllQueries };
+          const prefetch = React.useCallback<UseToolsResponse<any>['prefetch']>(
+            async (params, settings) => {
+              if (!client) {
+                toolsLog(['Prefetch aborted, no query client found - is the hook being used within an `ApiHooksStore.Provider`?'], debugKey);
+                return;
+              }
+              toolsLog(['Prefetch triggered', { params }], debugKey);
+              client.registerQueryRunner(endpointHash, queryRunner);
+              // the test keys of the provider are passed on, as they may differ from the test keys of the client passed to it
+              await client.prefetchQuery({ endpointHash }, params, settings, testKeys);
+            },
+            [client, testKeys, debugKey]
+          );
+
+          return { refetchAllQueries, prefetch };
         },
       };
       return controllerDictionary;
-    }, {} as EndpointHooks<TController, TProcessingResponse>);
+    }, {} as EndpointHooks<TController, TProcessingResponse, TError>);
   }
 
   /**
@@ -1574,11 +2811,11 @@ export namespace ApiHooks {
    * The create function takes a single API client and returns the hooks, config dictionaries, and mock endpoints dictionary.
    * @param apiClient The API client to parse, must be an object containing controller objects with nested endpoint functions
    * @param config The application level config for the useQuery and useMutation hooks. Overrides the system config but can potentially be overridden at endpoint and hook level
-   * @returns The hooks
+   * @returns The hooks, the `error` of each live response is typed with the optional `TError` generic (defaults to `any`)
    */
-  export function create<TApiClient extends object, TProcessingResponse = undefined>(
+  export function create<TApiClient extends object, TProcessingResponse = undefined, TError = any>(
     apiClient: TApiClient,
-    config: CreationSettings<TApiClient, any, TProcessingResponse> = {}
+    config: CreationSettings<TApiClient, any, TProcessingResponse, TError> = {}
   ) {
     if (config?.generalConfig?.debugMode) {
       log('API Hooks - creating hook/config library for (client/applicationConfig):', apiClient, config);
@@ -1597,8 +2834,11 @@ export namespace ApiHooks {
     const mockEndpoints = config?.mockEndpointFactory?.(emptyMockEndpointLibrary) ?? emptyMockEndpointLibrary;
     const defaultData = config?.defaultDataFactory?.(emptyDefaultDataLibrary) ?? emptyDefaultDataLibrary;
 
+    // the query runner of each endpoint, populated by the `createHooks` function
+    const queryRunners: { [endpointKey: string]: ApiHooksClient.QueryRunner } = {};
+
     // Reduce client controller dictionary into hooks and config
-    return Object.keys(apiClient).reduce<ControllerHooks<TApiClient, TProcessingResponse>>((memo, key) => {
+    const hooks = Object.keys(apiClient).reduce<ControllerHooks<TApiClient, TProcessingResponse, TError>>((memo, key) => {
       const newMemo = { ...memo };
       const controller = apiClient[key];
       newMemo[key] = createHooks(
@@ -1610,24 +2850,29 @@ export namespace ApiHooks {
         hookConfig[key],
         mockEndpoints[key],
         defaultData[key],
+        queryRunners,
         config?.generalConfig,
         config?.processingHook,
         config?.preProcessorHook
       );
       return newMemo;
-    }, {} as ControllerHooks<TApiClient, TProcessingResponse>);
+    }, {} as ControllerHooks<TApiClient, TProcessingResponse, TError>);
+
+    // store the query runners against the hooks, so that they can be registered with a query client
+    queryRunnerLibraries.set(hooks, queryRunners);
+    return hooks;
   }
 
   /**
    * The create function takes a dictionary of API clients and returns the hooks, config dictionaries, and mock endpoints dictionary.
    * @param apiClientDictionary A dictionary of API clients to parse, must be an object containing client key strings mapped to clients containing controller objects with nested endpoint functions
    * @param config The application level config for the useQuery and useMutation hooks. Overrides the system config but can potentially be overridden at endpoint and hook level
-   * @returns The hooks
+   * @returns The hooks, the `error` of each live response is typed with the optional `TError` generic (defaults to `any`)
    */
-  export function createMulti<TApiClientDictionary extends object = Record<any, any>, TProcessingResponse = any>(
+  export function createMulti<TApiClientDictionary extends object = Record<any, any>, TProcessingResponse = any, TError = any>(
     apiClientDictionary: TApiClientDictionary,
     config: CreationSettingsMulti<TApiClientDictionary, any> = {}
-  ): ControllerHooksMulti<TApiClientDictionary, TProcessingResponse> {
+  ): ControllerHooksMulti<TApiClientDictionary, TProcessingResponse, TError> {
     if (config?.generalConfig?.debugMode) {
       log('API Hooks - creating "multi" hook/config library for (client/applicationConfig):', apiClientDictionary, config);
     }
@@ -1661,29 +2906,40 @@ export namespace ApiHooks {
     const clientMockEndpoints = config?.mockEndpointFactory?.(emptyMockEndpointLibrary) ?? emptyMockEndpointLibrary;
     const clientDefaultData = config?.defaultDataFactory?.(emptyDefaultDataLibrary) ?? emptyDefaultDataLibrary;
 
-    return Object.keys(apiClientDictionary).reduce<ControllerHooksMulti<TApiClientDictionary, TProcessingResponse>>((clientMemo, clientKey) => {
-      const newClientMemo = { ...clientMemo };
-      const apiClient = apiClientDictionary[clientKey];
-      const hookConfig = clientHookConfig[clientKey];
-      const mockEndpoints = clientMockEndpoints[clientKey];
-      const defaultData = clientDefaultData[clientKey];
-      newClientMemo[clientKey] = Object.keys(apiClient).reduce((memo, key) => {
-        const newMemo = { ...memo };
-        const controller = apiClient[key];
-        newMemo[key] = createHooks(
-          key,
-          controller,
-          rootQuerySettings,
-          rootMutationSettings,
-          rootRequestSettings,
-          hookConfig[key],
-          mockEndpoints[key],
-          defaultData[key],
-          config?.generalConfig
-        );
-        return newMemo;
-      }, {});
-      return newClientMemo;
-    }, {} as ControllerHooksMulti<TApiClientDictionary, TProcessingResponse>);
+    // the query runner of each endpoint, populated by the `createHooks` function
+    const queryRunners: { [endpointKey: string]: ApiHooksClient.QueryRunner } = {};
+
+    const hooks = Object.keys(apiClientDictionary).reduce<ControllerHooksMulti<TApiClientDictionary, TProcessingResponse, TError>>(
+      (clientMemo, clientKey) => {
+        const newClientMemo = { ...clientMemo };
+        const apiClient = apiClientDictionary[clientKey];
+        const hookConfig = clientHookConfig[clientKey];
+        const mockEndpoints = clientMockEndpoints[clientKey];
+        const defaultData = clientDefaultData[clientKey];
+        newClientMemo[clientKey] = Object.keys(apiClient).reduce((memo, key) => {
+          const newMemo = { ...memo };
+          const controller = apiClient[key];
+          newMemo[key] = createHooks(
+            key,
+            controller,
+            rootQuerySettings,
+            rootMutationSettings,
+            rootRequestSettings,
+            hookConfig[key],
+            mockEndpoints[key],
+            defaultData[key],
+            queryRunners,
+            config?.generalConfig
+          );
+          return newMemo;
+        }, {});
+        return newClientMemo;
+      },
+      {} as ControllerHooksMulti<TApiClientDictionary, TProcessingResponse, TError>
+    );
+
+    // store the query runners against the hooks, so that they can be registered with a query client
+    queryRunnerLibraries.set(hooks, queryRunners);
+    return hooks;
   }
 }
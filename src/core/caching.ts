@@ -1,6 +1,7 @@
 import { ApiHooksStore } from './store';
 import { ApiHooks } from './apiHooks';
 import { EndpointIDs } from './endpointIDs';
+import { ApiHooksEntities } from './entities';
 import { ApiHooksGlobal } from './global';
 
 /**
@@ -37,12 +38,36 @@ export namespace ApiHooksCaching {
      * Cached data will be available in error state if older than this value
      */
     staleOnErrorIfOlderThan: Directive;
+    /**
+     * Cached data will be removed from memory once it hasn't been used by a mounted query for longer than this value
+     */
+    gcAfter: Directive;
+    /**
+     * If true, the cached data will never be evicted by the application level cache budget.
+     */
+    pinned?: boolean;
     /**
      * An optional array of params to mark as "bookmarks", meaning that if a request is made with a falsy value in one of these params, the value from the previous request will be used if it exists. This is useful primarily for paging cursors.
      */
     bookmarkParameters?: BookmarkParams<TParam>;
   }
 
+  /**
+   * The application level cache budget, applied across all endpoints of a query client.
+   * - When the budget is exceeded, the least recently read state slices are evicted until the cache is back within budget.
+   * - State slices that are mounted, pinned or loading are never evicted.
+   */
+  export interface Budget {
+    /**
+     * (optional) The maximum number of state slices to store across all endpoints
+     */
+    maxEntries?: number;
+    /**
+     * (optional) The maximum approximate size of the cached data across all endpoints, in bytes (based on the length of the serialized data)
+     */
+    maxBytes?: number;
+  }
+
   /** CONSTANTS */
 
   /** The system default cache key for when one isn't passed via the settings. */
@@ -63,6 +88,10 @@ export namespace ApiHooksCaching {
      * 'never' - Cached data will always be used if the request is in an error state
      */
     staleOnErrorIfOlderThan: 'never',
+    /**
+     * 'never' - Cached data will be kept in memory until the application is restarted (or it's removed by the max caching depth.)
+     */
+    gcAfter: 'never',
   };
 
   /** UTILITIES */
@@ -126,17 +155,47 @@ export namespace ApiHooksCaching {
     return true;
   }
 
+  /**
+   * Gets the time at which a piece of state will become stale based on it's timestamp and the caching directive
+   * @param stateSlice The slice of state to check (specific to an endpoint/params combination)
+   * @param directive The caching directive (represents time in MS)
+   * @returns The UNIX timestamp at which the state will become stale, or undefined if it's already stale or will never become stale
+   */
+  export function getStaleAt<TData>(stateSlice: ApiHooksStore.StateSlice<TData> | undefined, directive: Directive): number | undefined {
+    if (!stateSlice || typeof directive !== 'number' || isStale(stateSlice, directive)) {
+      return undefined;
+    }
+    return (stateSlice.timestamp ?? 0) + directive;
+  }
+
+  /**
+   * Checks whether an unused piece of state should be garbage collected based on the time it became unused and the caching directive
+   * @param unusedSince The UNIX timestamp of the time the state became unused
+   * @param directive The caching directive (represents time in MS)
+   */
+  export function isCollectable(unusedSince: number, directive: Directive) {
+    if (directive === 'always') {
+      return true;
+    }
+    if (directive === 'never') {
+      return false;
+    }
+    return unusedSince + directive <= Date.now();
+  }
+
   /**
    * Checks a dictionary of state slices for one endpoint (each entry represents a set of params) and
    * cuts it down to the max number of entries by deleting the oldest.
    * @param endpointKey The key of the endpoint in question.
    * @param dictionary The slice of state to check (specific to an endpoint/params combination)
    * @param maxDepth The maximum number of entries allowed in a state slice (passed through from settings)
+   * @param usageLog (optional) The mount log of the query client holding the state - defaults to the client of the most recently mounted provider
    */
   export function cleanEndpointDictionary<K extends keyof ApiHooksStore.State>(
     endpointKey: Extract<K, string>,
     dictionary: ApiHooksStore.State[K],
-    maxDepth: number
+    maxDepth: number,
+    usageLog: Pick<UsageLog, 'isMounted'> = ApiHooksGlobal
   ) {
     const newDictionary = { ...dictionary };
     const keys = Object.keys(newDictionary || {});
@@ -149,7 +208,7 @@ export namespace ApiHooksCaching {
         }
         return memo;
       }, keys[0]);
-      if (!ApiHooksGlobal.isMounted(endpointKey, oldestKey)) {
+      if (!usageLog.isMounted(endpointKey, oldestKey)) {
         keysToRemove.push(oldestKey);
       }
     }
@@ -159,6 +218,176 @@ export namespace ApiHooksCaching {
     return newDictionary;
   }
 
+  /** CACHE BUDGET */
+
+  /**
+   * An in-memory store of the approximate size of each state slice's data, so that data is only measured once. Each query client holds its own.
+   */
+  export type SizeStore = { [key: string]: { data: any; size: number } };
+
+  /**
+   * The mount, read and pin log of a query client (see `./client.ts`), used to decide which state slices are evicted first.
+   */
+  export interface UsageLog {
+    isMounted: (endpointKey: string, cacheKeyValue: string) => boolean;
+    getReadAt: (endpointKey: string, cacheKeyValue: string) => number | undefined;
+    isPinned: (endpointKey: string, cacheKeyValue: string) => boolean;
+  }
+
+  /**
+   * Merges cache budgets, i.e. when hooks from several `create` functions are used with the same query client, the strictest limits are kept.
+   * @param budgets The cache budgets to merge, undefined budgets are ignored
+   * @returns The merged budget, or undefined if no budgets were passed
+   */
+  export function mergeBudgets(...budgets: (Budget | undefined)[]): Budget | undefined {
+    const definedBudgets = budgets.filter((budget): budget is Budget => !!budget);
+    if (!definedBudgets.length) {
+      return undefined;
+    }
+    const strictest = (limits: (number | undefined)[]) => {
+      const definedLimits = limits.filter((limit): limit is number => limit !== undefined);
+      return definedLimits.length ? Math.min(...definedLimits) : undefined;
+    };
+    return {
+      maxEntries: strictest(definedBudgets.map((budget) => budget.maxEntries)),
+      maxBytes: strictest(definedBudgets.map((budget) => budget.maxBytes)),
+    };
+  }
+
+  /**
+   * Measures the approximate size of a state slice's data based on the length of the serialized data.
+   * @param endpointKey The key of the endpoint in question.
+   * @param cacheKeyValue The key of the state slice in question.
+   * @param stateSlice The state slice to measure
+   * @param sizeStore The store of sizes already measured
+   */
+  function measureStateSlice(endpointKey: string, cacheKeyValue: string, stateSlice: ApiHooksStore.StateSlice<any>, sizeStore: SizeStore): number {
+    const storeKey = `${endpointKey}-${cacheKeyValue}`;
+    if (sizeStore[storeKey]?.data !== stateSlice.data) {
+      let size = 0;
+      try {
+        size = JSON.stringify(stateSlice.data)?.length ?? 0;
+      } catch {
+        // data that can't be serialized isn't counted towards the budget.
+      }
+      // eslint-disable-next-line no-param-reassign
+      sizeStore[storeKey] = { data: stateSlice.data, size };
+    }
+    return sizeStore[storeKey].size;
+  }
+
+  /**
+   * Checks the whole state object against a cache budget and evicts the least recently read state slices until it's back within budget.
+   * - State slices that are mounted, pinned or loading are never evicted.
+   * @param state The state object to check
+   * @param cacheBudget (optional) The cache budget, nothing will be evicted if not passed
+   * @param sizeStore (optional) The store of sizes already measured, should be kept between calls so that data is only measured once
+   * @param usageLog (optional) The mount, read and pin log of the query client holding the state - defaults to the client of the most recently mounted provider
+   * @returns The state object, a new object will only be returned if state slices have been evicted.
+   */
+  export function enforceCacheBudget(
+    state: ApiHooksStore.State,
+    cacheBudget?: Budget,
+    sizeStore: SizeStore = {},
+    usageLog: UsageLog = ApiHooksGlobal
+  ): ApiHooksStore.State {
+    if (!cacheBudget || (cacheBudget.maxEntries === undefined && cacheBudget.maxBytes === undefined)) {
+      return state;
+    }
+    const entries = Object.keys(state).reduce<{ endpointKey: string; cacheKeyValue: string; size: number; readAt: number; evictable: boolean }[]>(
+      (memo, endpointKey) => {
+        // the entity tables are referenced by other state slices, so they're never evicted
+        if (endpointKey === ApiHooksEntities.stateKey) {
+          return memo;
+        }
+        Object.keys(state[endpointKey] ?? {}).forEach((cacheKeyValue) => {
+          const stateSlice = state[endpointKey][cacheKeyValue];
+          if (stateSlice) {
+            memo.push({
+              endpointKey,
+              cacheKeyValue,
+              size: measureStateSlice(endpointKey, cacheKeyValue, stateSlice, sizeStore),
+              readAt: usageLog.getReadAt(endpointKey, cacheKeyValue) ?? stateSlice.timestamp ?? 0,
+              evictable:
+                !usageLog.isMounted(endpointKey, cacheKeyValue) &&
+                !usageLog.isPinned(endpointKey, cacheKeyValue) &&
+                !stateSlice.status?.startsWith('loading'),
+            });
+          }
+        });
+        return memo;
+      },
+      []
+    );
+    let entryCount = entries.length;
+    let byteCount = entries.reduce((total, entry) => total + entry.size, 0);
+    const isOverBudget = () =>
+      (cacheBudget?.maxEntries !== undefined && entryCount > cacheBudget.maxEntries) ||
+      (cacheBudget?.maxBytes !== undefined && byteCount > cacheBudget.maxBytes);
+    if (!isOverBudget()) {
+      return state;
+    }
+    const newState = { ...state };
+    const evictionQueue = entries.filter((entry) => entry.evictable).sort((a, b) => a.readAt - b.readAt);
+    for (const entry of evictionQueue) {
+      if (!isOverBudget()) {
+        break;
+      }
+      newState[entry.endpointKey] = { ...newState[entry.endpointKey] };
+      delete newState[entry.endpointKey][entry.cacheKeyValue];
+      // eslint-disable-next-line no-param-reassign
+      delete sizeStore[`${entry.endpointKey}-${entry.cacheKeyValue}`];
+      entryCount -= 1;
+      byteCount -= entry.size;
+    }
+    return newState;
+  }
+
+  /**
+   * Parses the params from the param hash of a state slice
+   * @param paramHash The param hash to parse
+   * @returns The params, or an empty object if the param hash can't be parsed
+   */
+  function parseParamHash<TParam>(paramHash: string): Partial<TParam> {
+    try {
+      return JSON.parse(paramHash) ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Finds the cache keys of the state slices targeted by an endpoint ID.
+   * - If the endpoint ID has a predicate, the cache keys of the state slices it matches are returned (filtered by the cache key value if one is passed)
+   * - If not, the cache key value is returned if one is passed, or undefined if the endpoint ID targets the whole endpoint
+   * @param state The state object holding the state slices
+   * @param endpointId The endpoint ID
+   * @param cacheKeyValue (optional) The cache key value resolved from the endpoint ID
+   * @returns An array of cache keys, or undefined if the whole endpoint is targeted
+   */
+  export function cacheKeyValuesFromEndpointId<TParam>(
+    state: ApiHooksStore.State,
+    endpointId: Pick<EndpointIDs.Response<any>, 'endpointHash' | 'predicate'>,
+    cacheKeyValue?: string | number
+  ): string[] | undefined {
+    const { endpointHash, predicate } = endpointId;
+    if (!predicate) {
+      return cacheKeyValue === undefined ? undefined : [cacheKeyValue.toString()];
+    }
+    const endpointState = state[endpointHash] ?? {};
+    return Object.keys(endpointState).filter((cacheKeyValueIndex) => {
+      const stateSlice = endpointState[cacheKeyValueIndex];
+      if (!stateSlice || (cacheKeyValue !== undefined && cacheKeyValue.toString() !== cacheKeyValueIndex)) {
+        return false;
+      }
+      return predicate({
+        params: parseParamHash<TParam>(stateSlice.paramHash),
+        cacheKeyValue: cacheKeyValueIndex,
+        data: ApiHooksEntities.getData(state, endpointHash, cacheKeyValueIndex),
+      });
+    });
+  }
+
   /**
    * Retrieves the value of the cache key property from a refetch query
    * @param params The params to look in
@@ -0,0 +1,770 @@
+import { Objects } from '../utils/objects';
+import { ApiHooks } from './apiHooks';
+import { ApiHooksCaching } from './caching';
+import { EndpointIDs } from './endpointIDs';
+import { ApiHooksEntities } from './entities';
+import { ApiHooksEvents } from './events';
+import { ApiHooksOptimistic } from './optimistic';
+import { ApiHooksStore } from './store';
+
+/**
+ * API Hooks - Client
+ * ----------------
+ * A framework-agnostic query client that owns the API Hooks cache, can be used outside of React components.
+ *
+ * This file contains everything relating to the query client, includes:
+ * - The client class, which holds the state, runs the reducer and tracks requests in progress
+ * - The query runner registry of each client, populated from the hooks created by the `create` functions
+ * - Imperative query methods (fetch, prefetch, get/set data, invalidate & subscribe)
+ * - Garbage collection of unused state slices
+ */
+export namespace ApiHooksClient {
+  /** TYPES */
+
+  /**
+   * The options passed to the `create` function.
+   */
+  export interface Options {
+    /**
+     * (optional) A state object to merge into the initial state, usually created using the `ApiHooksStore.dehydrate` function on the server.
+     */
+    initialState?: ApiHooksStore.State;
+    /**
+     * (optional) The test keys to pass to "Mock Endpoints", see `ApiHooksStore.ProviderProps`
+     */
+    testKeys?: ApiHooksStore.TestKeyState;
+    /**
+     * (optional) The hooks returned by the `ApiHooks.create` or `ApiHooks.createMulti` functions, required to fetch or set query data using params outside of React components.
+     * - The hooks register their endpoints with the client when they're used, so this is only needed for queries that haven't been used by a hook yet
+     */
+    hooks?: object | object[];
+    /**
+     * (optional) The cache budget of the client, overrides the `cacheBudget` general config of any hooks used with the client.
+     */
+    cacheBudget?: ApiHooksCaching.Budget;
+  }
+
+  /**
+   * A function to be called every time the state changes (silent state updates excluded)
+   * @param state The updated state object
+   * @param action The action that updated the state, will be undefined if the state was hydrated
+   */
+  export type Listener = (state: ApiHooksStore.State, action?: ApiHooksStore.Actions.GenericAction) => void;
+
+  /**
+   * A function to be called every time a single state slice changes (silent state updates excluded)
+   */
+  export type StateSliceListener = () => void;
+
+  /**
+   * A new data value for a state slice, or a function which receives the current data (if any) and returns the new data value.
+   */
+  export type DataUpdater<TData> = TData | ((currentData: TData | undefined) => TData);
+
+  /**
+   * The settings that can be passed to the `fetchQuery` and `prefetchQuery` methods, will be applied over the application and endpoint level query settings.
+   */
+  export type FetchQuerySettings<TParam = any, TData = any> = Partial<Omit<ApiHooks.UseQueryConfigSettings<TParam, TData>, 'parameters'>>;
+
+  /**
+   * The interface for an endpoint's query runner, created for each endpoint by the `create` functions.
+   */
+  export interface QueryRunner {
+    /**
+     * Applies settings on top of the system, application and endpoint level query settings.
+     * @param settings The settings to apply
+     * @returns The combined settings
+     */
+    getSettings: (settings: Partial<ApiHooks.UseQueryConfigSettings<any, any>>) => ApiHooks.UseQueryConfigSettings<any, any>;
+    /**
+     * Fetches data from the server and stores the result in the client.
+     * @param client The client to store the result in
+     * @param settings The combined query settings, including the parameters
+     * @param mode The fetching mode
+     * @param testKeys (optional) The test keys to pass to "Mock Endpoints" - defaults to the test keys of the client
+     * @returns A promise of the response data, will reject if the request fails.
+     */
+    run: (
+      client: Client,
+      settings: ApiHooks.UseQueryConfigSettings<any, any>,
+      mode: ApiHooks.FetchingMode,
+      testKeys?: ApiHooksStore.TestKeyState
+    ) => Promise<any>;
+    /**
+     * (optional) The cache budget from the general config of the hooks, applied to any client the query runner is registered with.
+     */
+    cacheBudget?: ApiHooksCaching.Budget;
+  }
+
+  /** An unused endpoint/cacheKey combination waiting to be garbage collected */
+  interface GarbageCollectionCandidate {
+    endpointKey: string;
+    cacheKeyValue: string;
+    gcAfter: ApiHooksCaching.Directive;
+    unusedSince: number;
+  }
+
+  /** The usage of an endpoint/cacheKey combination, used by garbage collection and the cache budget to decide which state slices can be removed */
+  interface UsageLogEntry {
+    endpointKey: string;
+    cacheKeyValue: string;
+    mountCount?: number;
+    unMountedAt?: number;
+    readAt?: number;
+    pinned?: boolean;
+  }
+
+  /** UTILITIES */
+
+  /**
+   * Creates a unique key from an endpoint & cacheKey combination.
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   */
+  function createStoreKey(endpointKey: string, cacheKeyValue: string) {
+    return `${endpointKey}-${cacheKeyValue}`;
+  }
+
+  /** CLIENT */
+
+  /**
+   * The query client - holds the API Hooks state and runs the reducer.
+   * - Pass to the `ApiHooksStore.Provider` to share the cache with the hooks.
+   */
+  export class Client {
+    /** The test keys to pass to "Mock Endpoints" */
+    public readonly testKeys?: ApiHooksStore.TestKeyState;
+
+    /** The current state object */
+    private state: ApiHooksStore.State;
+
+    /** The current cached data state object, only changes when data is loaded or reset */
+    private cacheOnlyState: ApiHooksStore.State;
+
+    /** The functions to call when the state changes */
+    private readonly listeners: Listener[] = [];
+
+    /** The functions to call when individual state slices change, keyed by endpoint and then cache key */
+    private readonly stateSliceListeners: { [endpointKey: string]: { [cacheKeyValue: string]: StateSliceListener[] } } = {};
+
+    /**
+     * The register of endpoint/cacheKey combinations currently fetching.
+     * Background: Because state updates reach components asynchronously, we can't rely on the 'status = loading' action when blocking
+     * simultaneous calls to the same endpoint/cacheKey, we need an instant synchronous store in memory to do so.
+     */
+    private readonly fetching: { [key: string]: boolean } = {};
+
+    /** The promises of requests currently in progress, so that duplicate requests can share them */
+    private readonly fetchPromises: { [key: string]: Promise<any> } = {};
+
+    /** The abort controllers of requests currently in progress, so that they can be cancelled */
+    private readonly abortControllers: { [key: string]: AbortController } = {};
+
+    /** The unused endpoint/cacheKey combinations waiting to be garbage collected */
+    private readonly gcCandidates: { [key: string]: GarbageCollectionCandidate } = {};
+
+    /** The timer for the next garbage collection sweep */
+    private gcTimer?: ReturnType<typeof setTimeout>;
+
+    /** The register of query runners, keyed by endpoint hash (in format `controller.endpoint`) */
+    private readonly queryRunners: { [endpointKey: string]: QueryRunner } = {};
+
+    /** The cache budget passed in the options, if any */
+    private readonly cacheBudgetOverride?: ApiHooksCaching.Budget;
+
+    /** The cache budget applied to the state, merged from the registered query runners unless overridden in the options */
+    private cacheBudget?: ApiHooksCaching.Budget;
+
+    /** The approximate size of each state slice's data, measured when enforcing the cache budget */
+    private readonly sizeStore: ApiHooksCaching.SizeStore = {};
+
+    /**
+     * The register of how many components have each endpoint/cacheKey combination mounted, when it was last read and whether it's pinned.
+     * - Everything but the mount count is cleared when the state slice is removed
+     */
+    private readonly usageLog: { [key: string]: UsageLogEntry } = {};
+
+    /** The register of optimistic layers pending against this client's state slices, see `ApiHooksOptimistic` */
+    public readonly optimisticLayers: ApiHooksOptimistic.PendingStore = {};
+
+    constructor(options: Options = {}) {
+      this.testKeys = options.testKeys;
+      this.cacheBudgetOverride = options.cacheBudget;
+      this.cacheBudget = options.cacheBudget;
+      // register the query runners of any hooks passed, so that their endpoints can be fetched before they're used by a hook
+      (Array.isArray(options.hooks) ? options.hooks : [options.hooks]).forEach((hooks) => {
+        if (hooks) {
+          const queryRunners = ApiHooks.getQueryRunners(hooks);
+          Object.keys(queryRunners).forEach((endpointKey) => this.registerQueryRunner(endpointKey, queryRunners[endpointKey]));
+        }
+      });
+      // execute the "onBeforeInitialState" event hooks and retrieve some potential state to use, then merge in any dehydrated state
+      this.state = ApiHooksStore.hydrate(ApiHooksEvents.onBeforeInitialState.executeEventHooks(options.testKeys) ?? {}, options.initialState);
+      this.cacheOnlyState = this.state;
+    }
+
+    /**
+     * Returns the current state object
+     */
+    public getState = (): ApiHooksStore.State => {
+      return this.state;
+    };
+
+    /**
+     * Applies an action to the state using the store reducer, notifies listeners and executes the "onStateUpdated" and "onCacheUpdated" event hooks if the state has changed.
+     * @param action The action to apply
+     */
+    public dispatch = (action: ApiHooksStore.Actions.GenericAction) => {
+      const { isResetAction, isRefetchAction, isEntitiesAction } = ApiHooksStore.Actions;
+      const isStateSliceAction = !isResetAction(action) && !isRefetchAction(action) && !isEntitiesAction(action);
+
+      const previousState = this.state;
+      this.state = this.applyCacheBudget(previousState, ApiHooksStore.reducer(previousState, action, this), isStateSliceAction);
+
+      if (!isRefetchAction(action) && (isResetAction(action) || isEntitiesAction(action) || action.status === 'loaded')) {
+        const previousCacheOnlyState = this.cacheOnlyState;
+        this.cacheOnlyState = this.applyCacheBudget(
+          previousCacheOnlyState,
+          ApiHooksStore.reducer(previousCacheOnlyState, action, this),
+          isStateSliceAction
+        );
+        if (this.cacheOnlyState !== previousCacheOnlyState && ApiHooksEvents.onCacheUpdated.hasEventHooks()) {
+          ApiHooksEvents.onCacheUpdated.executeEventHooks(this.cacheOnlyState, this.testKeys);
+        }
+      }
+
+      if (this.state !== previousState) {
+        this.clearRemovedUsage(previousState);
+        if (ApiHooksEvents.onStateUpdated.hasEventHooks()) {
+          ApiHooksEvents.onStateUpdated.executeEventHooks(this.state, action, this.testKeys);
+        }
+        this.notifyStateSliceListeners(previousState);
+        this.listeners.forEach((listener) => listener(this.state, action));
+      }
+    };
+
+    /**
+     * Makes sure a state object updated by a state slice action hasn't exceeded the cache budget, see `ApiHooksCaching.enforceCacheBudget`
+     * @param previousState The state object before the update
+     * @param state The updated state object
+     * @param isStateSliceAction Whether the update was made by an action which adds to a state slice
+     * @returns The state object, with state slices evicted if over budget
+     */
+    private applyCacheBudget(previousState: ApiHooksStore.State, state: ApiHooksStore.State, isStateSliceAction: boolean) {
+      if (!isStateSliceAction || state === previousState) {
+        return state;
+      }
+      return ApiHooksCaching.enforceCacheBudget(state, this.cacheBudget, this.sizeStore, this);
+    }
+
+    /**
+     * Removes the usage logged for any state slices that have been removed since the previous state (i.e. evicted, garbage collected or reset), so that it doesn't apply to the data if it's loaded again.
+     * - The mount count is kept, as the components using a state slice that has been reset are still mounted
+     * @param previousState The state object before the update
+     */
+    private clearRemovedUsage(previousState: ApiHooksStore.State) {
+      Object.keys(this.usageLog).forEach((storeKey) => {
+        const { endpointKey, cacheKeyValue, mountCount } = this.usageLog[storeKey];
+        if (previousState[endpointKey]?.[cacheKeyValue] && !this.state[endpointKey]?.[cacheKeyValue]) {
+          if (mountCount) {
+            this.usageLog[storeKey] = { endpointKey, cacheKeyValue, mountCount };
+          } else {
+            delete this.usageLog[storeKey];
+          }
+        }
+      });
+    }
+
+    /**
+     * Updates the usage logged for an endpoint/cacheKey combination, removing the entry once nothing is logged.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @param usage The usage values to set
+     */
+    private updateUsage(endpointKey: string, cacheKeyValue: string, usage: Partial<Omit<UsageLogEntry, 'endpointKey' | 'cacheKeyValue'>>) {
+      const storeKey = createStoreKey(endpointKey, cacheKeyValue);
+      const entry = { ...this.usageLog[storeKey], ...usage, endpointKey, cacheKeyValue };
+      if (!entry.mountCount && entry.unMountedAt === undefined && entry.readAt === undefined && !entry.pinned) {
+        delete this.usageLog[storeKey];
+      } else {
+        this.usageLog[storeKey] = entry;
+      }
+    }
+
+    /**
+     * Logs that an endpoint/cacheKey combination is being mounted in a component.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     */
+    public setMounted(endpointKey: string, cacheKeyValue: string) {
+      const mountCount = this.usageLog[createStoreKey(endpointKey, cacheKeyValue)]?.mountCount ?? 0;
+      this.updateUsage(endpointKey, cacheKeyValue, { mountCount: mountCount + 1, unMountedAt: undefined });
+    }
+
+    /**
+     * Logs that an endpoint/cacheKey combination is being un-mounted in a component.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     */
+    public setUnMounted(endpointKey: string, cacheKeyValue: string) {
+      const currentValue = this.usageLog[createStoreKey(endpointKey, cacheKeyValue)]?.mountCount ?? 0;
+      const mountCount = currentValue ? currentValue - 1 : 0;
+      this.updateUsage(endpointKey, cacheKeyValue, { mountCount: mountCount || undefined, unMountedAt: mountCount ? undefined : Date.now() });
+    }
+
+    /**
+     * Checks whether an endpoint/cacheKey combination is logged as currently mounted.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     */
+    public isMounted(endpointKey: string, cacheKeyValue: string): boolean {
+      return !!this.usageLog[createStoreKey(endpointKey, cacheKeyValue)]?.mountCount;
+    }
+
+    /**
+     * Retrieves the time at which the last component using an endpoint/cacheKey combination was un-mounted.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @returns The UNIX timestamp of the un-mount, or undefined if the combination is mounted or has never been mounted.
+     */
+    public getUnMountedAt(endpointKey: string, cacheKeyValue: string): number | undefined {
+      return this.usageLog[createStoreKey(endpointKey, cacheKeyValue)]?.unMountedAt;
+    }
+
+    /**
+     * Logs that the data for an endpoint/cacheKey combination has just been read.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     */
+    public setRead(endpointKey: string, cacheKeyValue: string) {
+      this.updateUsage(endpointKey, cacheKeyValue, { readAt: Date.now() });
+    }
+
+    /**
+     * Retrieves the time at which the data for an endpoint/cacheKey combination was last read, or last un-mounted if later.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @returns The UNIX timestamp of the last read, or undefined if the data has never been read.
+     */
+    public getReadAt(endpointKey: string, cacheKeyValue: string): number | undefined {
+      const { readAt, unMountedAt } = this.usageLog[createStoreKey(endpointKey, cacheKeyValue)] ?? {};
+      if (readAt === undefined && unMountedAt === undefined) {
+        return undefined;
+      }
+      return Math.max(readAt ?? 0, unMountedAt ?? 0);
+    }
+
+    /**
+     * Logs the endpoint/cacheKey combination as pinned or not, pinned state slices are never evicted by the cache budget.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @param isPinnedValue Whether to set the endpoint/cacheKey as pinned or not.
+     */
+    public setPinned(endpointKey: string, cacheKeyValue: string, isPinnedValue: boolean) {
+      this.updateUsage(endpointKey, cacheKeyValue, { pinned: isPinnedValue || undefined });
+    }
+
+    /**
+     * Checks whether an endpoint/cacheKey combination is logged as pinned.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     */
+    public isPinned(endpointKey: string, cacheKeyValue: string): boolean {
+      return !!this.usageLog[createStoreKey(endpointKey, cacheKeyValue)]?.pinned;
+    }
+
+    /**
+     * Registers a function to be called every time the state changes
+     * @param listener The function to call
+     * @returns An "unsubscribe" function
+     */
+    public subscribe = (listener: Listener) => {
+      this.listeners.push(listener);
+      return () => {
+        const index = this.listeners.indexOf(listener);
+        if (index > -1) {
+          this.listeners.splice(index, 1);
+        }
+      };
+    };
+
+    /**
+     * Registers a function to be called every time a single state slice changes, used by the hooks so that components only re-render when the data they use changes.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue The cache key of the state slice
+     * @param listener The function to call
+     * @returns An "unsubscribe" function
+     */
+    public subscribeToStateSlice = (endpointKey: string, cacheKeyValue: string, listener: StateSliceListener) => {
+      this.stateSliceListeners[endpointKey] = this.stateSliceListeners[endpointKey] ?? {};
+      this.stateSliceListeners[endpointKey][cacheKeyValue] = [...(this.stateSliceListeners[endpointKey][cacheKeyValue] ?? []), listener];
+      return () => {
+        const listeners = this.stateSliceListeners[endpointKey]?.[cacheKeyValue]?.filter((existing) => existing !== listener) ?? [];
+        if (listeners.length) {
+          this.stateSliceListeners[endpointKey][cacheKeyValue] = listeners;
+        } else {
+          delete this.stateSliceListeners[endpointKey]?.[cacheKeyValue];
+        }
+      };
+    };
+
+    /**
+     * Calls the listeners of any state slices that have changed since the previous state.
+     * - The reducer never mutates a state slice on a non-silent update, so a reference check is enough to find changes
+     * @param previousState The state object before the update
+     */
+    private notifyStateSliceListeners(previousState: ApiHooksStore.State) {
+      Object.keys(this.stateSliceListeners).forEach((endpointKey) => {
+        if (previousState[endpointKey] === this.state[endpointKey]) {
+          return;
+        }
+        Object.keys(this.stateSliceListeners[endpointKey]).forEach((cacheKeyValue) => {
+          if (previousState[endpointKey]?.[cacheKeyValue] !== this.state[endpointKey]?.[cacheKeyValue]) {
+            this.stateSliceListeners[endpointKey][cacheKeyValue]?.forEach((listener) => listener());
+          }
+        });
+      });
+    }
+
+    /**
+     * Merges a dehydrated state object into the state, see `ApiHooksStore.hydrate`
+     * @param dehydratedState The dehydrated state object
+     */
+    public hydrate(dehydratedState?: ApiHooksStore.State) {
+      if (!dehydratedState || !Object.keys(dehydratedState).length) {
+        return;
+      }
+      const previousState = this.state;
+      this.state = ApiHooksStore.hydrate(this.state, dehydratedState);
+      this.cacheOnlyState = ApiHooksStore.hydrate(this.cacheOnlyState, dehydratedState);
+      this.notifyStateSliceListeners(previousState);
+      this.listeners.forEach((listener) => listener(this.state));
+    }
+
+    /**
+     * Logs the endpoint/cacheKey combination as fetching or not, used to block simultaneous requests.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @param isFetchingValue Whether to set the endpoint/cacheKey as fetching or not.
+     */
+    public setFetching(endpointKey: string, cacheKeyValue: string, isFetchingValue: boolean) {
+      const storeKey = createStoreKey(endpointKey, cacheKeyValue);
+      if (isFetchingValue) {
+        this.fetching[storeKey] = true;
+      } else {
+        delete this.fetching[storeKey];
+      }
+    }
+
+    /**
+     * Checks whether an endpoint/cacheKey combination is logged as already fetching.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     */
+    public isFetching(endpointKey: string, cacheKeyValue: string): boolean {
+      return !!this.fetching[createStoreKey(endpointKey, cacheKeyValue)];
+    }
+
+    /**
+     * Stores the promise of a request in progress until it has settled, so that duplicate requests can share it.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @param promise The promise of the request
+     */
+    public trackFetchPromise(endpointKey: string, cacheKeyValue: string, promise: Promise<any>) {
+      const storeKey = createStoreKey(endpointKey, cacheKeyValue);
+      this.fetchPromises[storeKey] = promise;
+      const clear = () => {
+        if (this.fetchPromises[storeKey] === promise) {
+          delete this.fetchPromises[storeKey];
+        }
+      };
+      promise.then(clear, clear);
+    }
+
+    /**
+     * Retrieves the promise of a request in progress for an endpoint/cacheKey combination.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     */
+    public getFetchPromise(endpointKey: string, cacheKeyValue: string): Promise<any> | undefined {
+      return this.fetchPromises[createStoreKey(endpointKey, cacheKeyValue)];
+    }
+
+    /**
+     * Creates an abort signal for a request, replacing any signal stored for the endpoint/cacheKey combination.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @returns The signal to pass to the endpoint, or undefined if `AbortController` isn't supported in this environment
+     */
+    public createAbortSignal(endpointKey: string, cacheKeyValue: string): AbortSignal | undefined {
+      if (typeof AbortController === 'undefined') {
+        return undefined;
+      }
+      const abortController = new AbortController();
+      this.abortControllers[createStoreKey(endpointKey, cacheKeyValue)] = abortController;
+      return abortController.signal;
+    }
+
+    /**
+     * Removes the abort signal of a request that has settled, unless it has already been replaced by a newer request.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @param signal The signal created for the request
+     */
+    public releaseAbortSignal(endpointKey: string, cacheKeyValue: string, signal?: AbortSignal) {
+      const storeKey = createStoreKey(endpointKey, cacheKeyValue);
+      if (signal && this.abortControllers[storeKey]?.signal === signal) {
+        delete this.abortControllers[storeKey];
+      }
+    }
+
+    /**
+     * Aborts the request in progress for an endpoint/cacheKey combination (if any).
+     * - The signal passed to the endpoint is aborted, and the response will be ignored if the endpoint doesn't respect it
+     * - The state slice is given an "aborted" status, and the request is no longer logged as fetching so that a new request can be made straight away
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @returns A boolean - true if a request was aborted
+     */
+    public abort(endpointKey: string, cacheKeyValue: string): boolean {
+      const storeKey = createStoreKey(endpointKey, cacheKeyValue);
+      const abortController = this.abortControllers[storeKey];
+      if (!abortController) {
+        return false;
+      }
+      delete this.abortControllers[storeKey];
+      delete this.fetchPromises[storeKey];
+      this.setFetching(endpointKey, cacheKeyValue, false);
+      abortController.abort();
+      const stateSlice = this.state[endpointKey]?.[cacheKeyValue];
+      if (stateSlice) {
+        this.dispatch(ApiHooksStore.Actions.aborted(endpointKey, stateSlice.paramHash, cacheKeyValue, stateSlice.maxCachingDepth));
+      }
+      return true;
+    }
+
+    /**
+     * Logs an endpoint/cacheKey combination as unused, it will be removed from the state by a garbage collection sweep once it has been unused for longer than the `gcAfter` caching directive.
+     * - Combinations that are mounted by the time of the sweep will not be removed.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @param gcAfter The `gcAfter` caching directive
+     */
+    public scheduleGarbageCollection(endpointKey: string, cacheKeyValue: string, gcAfter: ApiHooksCaching.Directive = 'never') {
+      if (gcAfter === 'never') {
+        return;
+      }
+      this.gcCandidates[createStoreKey(endpointKey, cacheKeyValue)] = { endpointKey, cacheKeyValue, gcAfter, unusedSince: Date.now() };
+      this.scheduleSweep();
+    }
+
+    /**
+     * Sets a timer for the next garbage collection sweep, based on the candidate that will become collectable soonest.
+     */
+    private scheduleSweep() {
+      if (this.gcTimer) {
+        clearTimeout(this.gcTimer);
+        this.gcTimer = undefined;
+      }
+      const dueTimes = Object.values(this.gcCandidates).map(({ gcAfter, unusedSince }) => unusedSince + (typeof gcAfter === 'number' ? gcAfter : 0));
+      if (dueTimes.length) {
+        this.gcTimer = setTimeout(this.sweep, Math.max(Math.min(...dueTimes) - Date.now(), 0));
+      }
+    }
+
+    /**
+     * The garbage collection sweep - resets the state slices of any candidates that have been unused for longer than their `gcAfter` caching directive.
+     * - Candidates that have been mounted again are discarded
+     * - Candidates that are fetching are postponed
+     */
+    private sweep = () => {
+      this.gcTimer = undefined;
+      Object.keys(this.gcCandidates).forEach((storeKey) => {
+        const candidate = this.gcCandidates[storeKey];
+        const { endpointKey, cacheKeyValue, gcAfter } = candidate;
+        if (this.isMounted(endpointKey, cacheKeyValue)) {
+          delete this.gcCandidates[storeKey];
+          return;
+        }
+        if (this.isFetching(endpointKey, cacheKeyValue)) {
+          candidate.unusedSince = Date.now();
+          return;
+        }
+        candidate.unusedSince = Math.max(candidate.unusedSince, this.getUnMountedAt(endpointKey, cacheKeyValue) ?? 0);
+        if (ApiHooksCaching.isCollectable(candidate.unusedSince, gcAfter)) {
+          delete this.gcCandidates[storeKey];
+          if (this.state[endpointKey]?.[cacheKeyValue]) {
+            this.dispatch(ApiHooksStore.Actions.reset(endpointKey, cacheKeyValue));
+          }
+        }
+      });
+      this.scheduleSweep();
+    };
+
+    /**
+     * Registers the query runner for an endpoint, called by the hooks when they're used.
+     * - The cache budget of the query runner (if any) is merged into the client's budget, unless a budget was passed in the options
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param queryRunner The query runner for the endpoint
+     */
+    public registerQueryRunner(endpointKey: string, queryRunner: QueryRunner) {
+      this.queryRunners[endpointKey] = queryRunner;
+      if (!this.cacheBudgetOverride && queryRunner.cacheBudget) {
+        this.cacheBudget = ApiHooksCaching.mergeBudgets(this.cacheBudget, queryRunner.cacheBudget);
+      }
+    }
+
+    /**
+     * Retrieves the query runner for an endpoint, throws if the endpoint hasn't been registered with the client.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     */
+    private getQueryRunner(endpointKey: string): QueryRunner {
+      const queryRunner = this.queryRunners[endpointKey];
+      if (!queryRunner) {
+        throw new Error(
+          `API Hooks Client error - no query runner has been registered for the following endpoint: ${endpointKey}, pass your hooks to the client using the \`hooks\` option`
+        );
+      }
+      return queryRunner;
+    }
+
+    /**
+     * Resolves the cache key for an endpoint ID, the `cacheKeyValue` of the endpoint ID is used if present, otherwise the cache key is parsed from the params.
+     * @param endpointId The endpoint ID
+     * @param params (optional) The query params
+     */
+    private getCacheKeyValue(endpointId: EndpointIDs.Response<any>, params?: any): string {
+      if (endpointId.cacheKeyValue !== undefined) {
+        return endpointId.cacheKeyValue.toString();
+      }
+      if (!params) {
+        return ApiHooksCaching.defaultCacheKey;
+      }
+      const { cacheKey } = this.getQueryRunner(endpointId.endpointHash).getSettings({ parameters: params });
+      return ApiHooksCaching.parseCacheKey(params, cacheKey);
+    }
+
+    /**
+     * Retrieves the cached data for a query.
+     * @param endpointId The endpoint ID of the query, can include a `cacheKeyValue`
+     * @param params (optional) The query params, used to resolve the cache key if the endpoint ID doesn't include one
+     * @returns The cached data, or undefined if nothing is cached
+     */
+    public getQueryData<TData = any, TParam = any>(endpointId: EndpointIDs.Response<TParam>, params?: Partial<TParam>): TData | undefined {
+      const cacheKeyValue = this.getCacheKeyValue(endpointId, params);
+      const data = ApiHooksEntities.getData<TData>(this.state, endpointId.endpointHash, cacheKeyValue);
+      if (data !== undefined) {
+        this.setRead(endpointId.endpointHash, cacheKeyValue);
+      }
+      return data;
+    }
+
+    /**
+     * Sets the cached data for a query, any hooks using the query will be updated.
+     * @param endpointId The endpoint ID of the query, can include a `cacheKeyValue`
+     * @param updater The new data, or a function which receives the current data and returns the new data
+     * @param params (optional) The query params, used to resolve the cache key if the endpoint ID doesn't include one
+     */
+    public setQueryData<TData = any, TParam = any>(endpointId: EndpointIDs.Response<TParam>, updater: DataUpdater<TData>, params?: Partial<TParam>) {
+      const { endpointHash } = endpointId;
+      const cacheKeyValue = this.getCacheKeyValue(endpointId, params);
+      const stateSlice = this.state[endpointHash]?.[cacheKeyValue];
+      const { maxCachingDepth: defaultMaxCachingDepth, structuralSharing } = this.getQueryRunner(endpointHash).getSettings({});
+      const currentData = ApiHooksEntities.getData<TData>(this.state, endpointHash, cacheKeyValue);
+      const newData = typeof updater === 'function' ? (updater as (data: TData | undefined) => TData)(currentData) : updater;
+      const data = structuralSharing ? Objects.replaceEqualDeep(currentData, newData) : newData;
+      const maxCachingDepth = stateSlice?.maxCachingDepth ?? defaultMaxCachingDepth;
+      this.dispatch(
+        ApiHooksStore.Actions.loaded(endpointHash, stateSlice?.paramHash ?? ApiHooksCaching.hashParams(params), cacheKeyValue, data, maxCachingDepth)
+      );
+    }
+
+    /**
+     * Marks cached queries as invalid - any mounted hooks using the queries will re-fetch, and the rest will re-fetch the next time they're used.
+     * - **WARNING:** If no endpoint ID is passed **all queries will be invalidated!**
+     * @param endpointId (optional) The endpoint ID of the queries to invalidate, can include a `cacheKeyValue` to invalidate a single query, or a `predicate` to invalidate the matching queries
+     */
+    public invalidate(endpointId?: EndpointIDs.Response<any>) {
+      if (!endpointId?.predicate) {
+        this.dispatch(ApiHooksStore.Actions.refetch(endpointId?.endpointHash, endpointId?.cacheKeyValue?.toString()));
+        return;
+      }
+      for (const cacheKeyValue of ApiHooksCaching.cacheKeyValuesFromEndpointId(this.state, endpointId, endpointId.cacheKeyValue) ?? []) {
+        this.dispatch(ApiHooksStore.Actions.refetch(endpointId.endpointHash, cacheKeyValue));
+      }
+    }
+
+    /**
+     * Marks every cached query providing at least one of the tags as needing a refetch, any hooks using them will re-fetch.
+     * @param tags The tags to invalidate
+     */
+    public invalidateTags(tags: ApiHooks.Tag[]) {
+      this.dispatch(ApiHooksStore.Actions.invalidateTags(tags));
+    }
+
+    /**
+     * Fetches a query and stores the result in the cache, the cached data will be returned instead if it's still valid according to the caching settings.
+     * @param endpointId The endpoint ID of the query
+     * @param params (optional) The query params
+     * @param settings (optional) Query settings to apply over the application and endpoint level settings
+     * @param testKeys (optional) The test keys to pass to "Mock Endpoints" - defaults to the test keys of the client
+     * @returns A promise of the data, will reject if the request fails
+     */
+    public fetchQuery<TData = any, TParam = any>(
+      endpointId: EndpointIDs.Response<TParam>,
+      params?: Partial<TParam>,
+      settings?: FetchQuerySettings<TParam, TData>,
+      testKeys?: ApiHooksStore.TestKeyState
+    ): Promise<TData> {
+      const queryRunner = this.getQueryRunner(endpointId.endpointHash);
+      const finalSettings = queryRunner.getSettings({ ...(settings ?? {}), parameters: params ?? {} });
+      const cacheKeyValue = ApiHooksCaching.parseCacheKey(finalSettings.parameters, finalSettings.cacheKey);
+      const stateSlice = this.state[endpointId.endpointHash]?.[cacheKeyValue];
+      const cachingSettings = finalSettings.caching as ApiHooksCaching.Settings<TParam>;
+      if (
+        stateSlice?.data !== undefined &&
+        !stateSlice.error &&
+        !stateSlice.shouldRefetchData &&
+        stateSlice.paramHash === ApiHooksCaching.hashParams(finalSettings.parameters) &&
+        !ApiHooksCaching.isStale(stateSlice, cachingSettings.staleIfOlderThan)
+      ) {
+        this.setRead(endpointId.endpointHash, cacheKeyValue);
+        return Promise.resolve(ApiHooksEntities.denormalise(this.state, endpointId.endpointHash, stateSlice.data));
+      }
+      return queryRunner.run(this, finalSettings, 'manual', testKeys);
+    }
+
+    /**
+     * Fetches a query ahead of time so that it's cached before it's needed, nothing will be fetched if the cached data is still valid.
+     * - Unlike `fetchQuery`, this will never reject.
+     * @param endpointId The endpoint ID of the query
+     * @param params (optional) The query params
+     * @param settings (optional) Query settings to apply over the application and endpoint level settings
+     * @param testKeys (optional) The test keys to pass to "Mock Endpoints" - defaults to the test keys of the client
+     */
+    public async prefetchQuery<TParam = any>(
+      endpointId: EndpointIDs.Response<TParam>,
+      params?: Partial<TParam>,
+      settings?: FetchQuerySettings<TParam>,
+      testKeys?: ApiHooksStore.TestKeyState
+    ) {
+      try {
+        await this.fetchQuery(endpointId, params, settings, testKeys);
+      } catch {
+        // errors are stored in state, the query will be re-tried when it's used.
+      }
+    }
+  }
+
+  /** FUNCTIONS */
+
+  /**
+   * Creates a query client, this can be passed to the `ApiHooksStore.Provider` and used outside of React components.
+   * @param options (optional) The client options
+   * @returns The query client
+   */
+  export function create(options?: Options) {
+    return new Client(options);
+  }
+}
@@ -27,6 +27,23 @@ export namespace EndpointIDs {
 
   /** CACHE IDENTIFIER TYPES */
 
+  /**
+   * The details of a single state slice, passed to a predicate
+   */
+  export interface PredicateDetails<TParam, TData = any> {
+    /** The parameters last sent to the query, parsed from the param hash of the state slice */
+    params: Partial<TParam>;
+    /** The cache key of the state slice */
+    cacheKeyValue: string;
+    /** The data stored in the state slice (if any) */
+    data?: TData;
+  }
+
+  /**
+   * A function which decides whether a state slice should be targeted by a refetch or reset
+   */
+  export type Predicate<TParam, TData = any> = (details: PredicateDetails<TParam, TData>) => boolean;
+
   /**
    * The config passed to the EndpointID factory method.
    */
@@ -50,6 +67,11 @@ export namespace EndpointIDs {
      * @default merge
      */
     paramOverrideMode?: ApiHooksStore.RefetchParamOverrideMode;
+    /**
+     * (optional) A function which receives the params, cache key and data of each state slice stored against the endpoint, and decides whether it should be re-fetched (or reset.) If a cache key value is also passed, only that state slice will be checked.
+     * @example ({ params }) => params.searchTerm === 'example'
+     */
+    predicate?: Predicate<TParam>;
   }
 
   /**
@@ -63,6 +85,45 @@ export namespace EndpointIDs {
     endpointHash: string;
   }
 
+  /** FILTER TYPES */
+
+  /**
+   * The lists of endpoints to allow or deny, each endpoint ID can optionally include a `cacheKeyValue` to target a single state slice.
+   */
+  export interface Filter {
+    /** (optional) If passed, ONLY these endpoints will be included */
+    allow?: Response<any>[];
+    /** (optional) These endpoints will never be included */
+    deny?: Response<any>[];
+  }
+
+  /** UTILITIES */
+
+  /**
+   * Checks whether an endpoint/cacheKey combination matches any endpoint ID in a list.
+   * @param endpointIds The endpoint IDs to check against
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   */
+  export function matches(endpointIds: Response<any>[], endpointKey: string, cacheKeyValue: string) {
+    return endpointIds.some(
+      (endpointId) =>
+        endpointId.endpointHash === endpointKey && (endpointId.cacheKeyValue === undefined || endpointId.cacheKeyValue.toString() === cacheKeyValue)
+    );
+  }
+
+  /**
+   * Checks whether an endpoint/cacheKey combination is allowed by a filter.
+   * @param filter The endpoints to allow or deny, everything is allowed if not passed
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   */
+  export function isAllowed(filter: Filter | undefined, endpointKey: string, cacheKeyValue: string) {
+    return (
+      (!filter?.allow || matches(filter.allow, endpointKey, cacheKeyValue)) && (!filter?.deny || !matches(filter.deny, endpointKey, cacheKeyValue))
+    );
+  }
+
   /**
    * The create function takes an API client and returns a dictionary of endpoint identifiers to be used for declaring refetch queries and for testing.
    * @param apiClient The API client to parse, must be an object containing controller objects with nested endpoint functions
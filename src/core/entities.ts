@@ -0,0 +1,290 @@
+import { Objects } from '../utils/objects';
+import { ApiHooksStore } from './store';
+
+/**
+ * API Hooks - Entities
+ * ----------------
+ * An optional normalised cache of entities, shared between endpoints.
+ *
+ * This file contains everything relating to normalisation, includes:
+ * - Schema factories for describing where entities can be found in a response
+ * - The normaliser registry, populated by the `create` functions from the endpoint level hook config
+ * - Normalise/denormalise functions, used by the reducer when storing data and anywhere cached data is read
+ *
+ * Entity tables are stored in the main state object under a reserved key, one state slice per entity type, so they're persisted, dehydrated and subscribed to in the same way as any other state.
+ */
+export namespace ApiHooksEntities {
+  /** TYPES */
+
+  /**
+   * Describes an entity type, and how to find the entities nested within it.
+   * - Should be created using the `entity` function.
+   */
+  export interface EntitySchema {
+    /** A constant 'true' - used to detect an entity schema vs an object schema */
+    isEntitySchema: true;
+    /** The type of the entity, entities of the same type are stored in the same table */
+    entityType: string;
+    /** Returns the unique ID of an entity */
+    getId: (value: any) => string;
+    /** (optional) The schemas of any properties containing nested entities */
+    nested?: { [key: string]: Schema };
+  }
+
+  /**
+   * Describes where the entities can be found in a response.
+   * - An entity schema for a single entity, i.e. `ApiHooksEntities.entity('user')`
+   * - An array containing a schema for a list, i.e. `[ApiHooksEntities.entity('user')]`
+   * - An object of schemas for properties of an object, i.e. `{ items: [ApiHooksEntities.entity('user')] }`
+   */
+  export type Schema = EntitySchema | Schema[] | { [key: string]: Schema };
+
+  /**
+   * The options passed to the `entity` function.
+   */
+  export interface EntityOptions<TEntity> {
+    /**
+     * (optional) The property holding the unique ID of the entity, or a function which returns it - defaults to `id`
+     */
+    idKey?: keyof TEntity | ((value: TEntity) => string);
+    /**
+     * (optional) The schemas of any properties containing nested entities
+     */
+    nested?: { [TKey in keyof TEntity]?: Schema };
+  }
+
+  /**
+   * A dictionary of entity tables, keyed by entity type and then ID
+   */
+  export type Entities = { [entityType: string]: { [id: string]: any } };
+
+  /**
+   * The reserved key under which the entity tables are stored in the state object.
+   */
+  export const stateKey = '$entities';
+
+  /** SCHEMAS */
+
+  /**
+   * Detects an entity schema vs a list or object schema
+   * @param schema The schema to check
+   */
+  export function isEntitySchema(schema: Schema): schema is EntitySchema {
+    return !!(schema as EntitySchema).isEntitySchema;
+  }
+
+  /**
+   * Creates a schema for an entity type.
+   * @param entityType The type of the entity, entities of the same type are stored in the same table
+   * @param options (optional) The ID key and nested entity schemas
+   * @returns The entity schema
+   */
+  export function entity<TEntity = any>(entityType: string, options: EntityOptions<TEntity> = {}): EntitySchema {
+    const { idKey = 'id', nested } = options;
+    return {
+      isEntitySchema: true,
+      entityType,
+      getId: (value) => (typeof idKey === 'function' ? idKey(value) : value?.[idKey])?.toString(),
+      nested: nested as EntitySchema['nested'],
+    };
+  }
+
+  /** REGISTRY */
+
+  /**
+   * The register of normalisers, keyed by endpoint hash (in format `controller.endpoint`)
+   */
+  const normalisers: { [endpointKey: string]: { schema: Schema; entityTypes: string[] } } = {};
+
+  /**
+   * Finds every entity type within a schema.
+   * @param schema The schema to search
+   * @param entityTypes The entity types found so far
+   */
+  function collectEntityTypes(schema: Schema, entityTypes: string[] = []): string[] {
+    if (isEntitySchema(schema)) {
+      if (!entityTypes.includes(schema.entityType)) {
+        entityTypes.push(schema.entityType);
+      }
+      Object.keys(schema.nested ?? {}).forEach((key) => collectEntityTypes(schema.nested?.[key] as Schema, entityTypes));
+    } else if (Array.isArray(schema)) {
+      collectEntityTypes(schema[0], entityTypes);
+    } else {
+      Object.keys(schema).forEach((key) => collectEntityTypes(schema[key], entityTypes));
+    }
+    return entityTypes;
+  }
+
+  /**
+   * Registers the normaliser for an endpoint, called by the `create` functions.
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param schema The schema describing where the entities can be found in the endpoint's response
+   */
+  export function registerNormaliser(endpointKey: string, schema: Schema) {
+    normalisers[endpointKey] = { schema, entityTypes: collectEntityTypes(schema) };
+  }
+
+  /**
+   * Retrieves the normaliser schema for an endpoint, if one has been registered.
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   */
+  export function getNormaliser(endpointKey: string): Schema | undefined {
+    return normalisers[endpointKey]?.schema;
+  }
+
+  /**
+   * Retrieves the entity types found in an endpoint's response, will be empty if the endpoint has no normaliser.
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   */
+  export function getEntityTypes(endpointKey: string): string[] {
+    return normalisers[endpointKey]?.entityTypes ?? [];
+  }
+
+  /** NORMALISATION */
+
+  /**
+   * Replaces the entities in a value with their IDs, adding the entities to the entity tables.
+   * @param value The value to normalise
+   * @param schema The schema describing where the entities can be found
+   * @param entities The entity tables to add to
+   * @returns The normalised value
+   */
+  function normaliseValue(value: any, schema: Schema, entities: Entities): any {
+    if (value === undefined || value === null) {
+      return value;
+    }
+    if (isEntitySchema(schema)) {
+      // anything other than an object (i.e. an ID) is already normalised
+      const id = Objects.isObject(value) ? schema.getId(value) : undefined;
+      if (id === undefined) {
+        return value;
+      }
+      const normalisedEntity = { ...value };
+      Object.keys(schema.nested ?? {}).forEach((key) => {
+        normalisedEntity[key] = normaliseValue(value[key], schema.nested?.[key] as Schema, entities);
+      });
+      // eslint-disable-next-line no-param-reassign
+      entities[schema.entityType] = entities[schema.entityType] ?? {};
+      // eslint-disable-next-line no-param-reassign
+      entities[schema.entityType][id] = { ...(entities[schema.entityType][id] ?? {}), ...normalisedEntity };
+      return id;
+    }
+    if (Array.isArray(schema)) {
+      return Array.isArray(value) ? value.map((item) => normaliseValue(item, schema[0], entities)) : value;
+    }
+    if (!Objects.isObject(value)) {
+      return value;
+    }
+    const normalisedValue = { ...value };
+    Object.keys(schema).forEach((key) => {
+      normalisedValue[key] = normaliseValue(value[key], schema[key], entities);
+    });
+    return normalisedValue;
+  }
+
+  /**
+   * Extracts the entities from a value, replacing them with their IDs.
+   * @param value The value to normalise, usually the response from an endpoint
+   * @param schema The schema describing where the entities can be found
+   * @returns The normalised value, and the entities found within it
+   */
+  export function normalise(value: any, schema: Schema): { result: any; entities: Entities } {
+    const entities: Entities = {};
+    const result = normaliseValue(value, schema, entities);
+    return { result, entities };
+  }
+
+  /**
+   * Replaces the entity IDs in a normalised value with the entities from the entity tables.
+   * @param value The normalised value
+   * @param schema The schema describing where the entities can be found
+   * @param state The state object holding the entity tables
+   * @returns The denormalised value
+   */
+  function denormaliseValue(value: any, schema: Schema, state: ApiHooksStore.State): any {
+    if (value === undefined || value === null) {
+      return value;
+    }
+    if (isEntitySchema(schema)) {
+      const storedEntity = Objects.isObject(value) ? value : state[stateKey]?.[schema.entityType]?.data?.[value];
+      if (!storedEntity || !schema.nested) {
+        return storedEntity;
+      }
+      const denormalisedEntity = { ...storedEntity };
+      Object.keys(schema.nested).forEach((key) => {
+        denormalisedEntity[key] = denormaliseValue(storedEntity[key], schema.nested?.[key] as Schema, state);
+      });
+      return denormalisedEntity;
+    }
+    if (Array.isArray(schema)) {
+      return Array.isArray(value) ? value.map((item) => denormaliseValue(item, schema[0], state)) : value;
+    }
+    if (!Objects.isObject(value)) {
+      return value;
+    }
+    const denormalisedValue = { ...value };
+    Object.keys(schema).forEach((key) => {
+      denormalisedValue[key] = denormaliseValue(value[key], schema[key], state);
+    });
+    return denormalisedValue;
+  }
+
+  /**
+   * Replaces the entity IDs in a state slice's data with the entities from the entity tables, if the endpoint has a normaliser.
+   * @param state The state object holding the entity tables
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param data The data stored in the state slice
+   * @returns The denormalised data, or the data as it is if the endpoint has no normaliser
+   */
+  export function denormalise<TData = any>(state: ApiHooksStore.State, endpointKey: string, data: any): TData {
+    const schema = getNormaliser(endpointKey);
+    if (!schema || data === undefined) {
+      return data;
+    }
+    return denormaliseValue(data, schema, state);
+  }
+
+  /**
+   * Reads the data from a state slice, denormalising it if the endpoint has a normaliser.
+   * - **This should be used instead of reading the `data` property of a state slice directly**
+   * @param state The state object
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue The cache key of the state slice
+   * @returns The data, or undefined if there is no data cached
+   */
+  export function getData<TData = any>(state: ApiHooksStore.State, endpointKey: string, cacheKeyValue: string): TData | undefined {
+    return denormalise(state, endpointKey, state[endpointKey]?.[cacheKeyValue]?.data);
+  }
+
+  /**
+   * Merges some entities into the entity tables.
+   * - Incoming entities are merged over the stored entities, so that partial entities (i.e. from a list endpoint) don't remove properties
+   * - Unchanged entities and tables keep their previous references, a new state object will only be returned if something has changed
+   * @param state The state object holding the entity tables
+   * @param entities The entities to merge in
+   * @param timestamp (optional) The time the entities were loaded - defaults to now
+   * @returns The state object with the merged entity tables
+   */
+  export function mergeEntities(state: ApiHooksStore.State, entities: Entities, timestamp = Date.now()): ApiHooksStore.State {
+    let entityState = state[stateKey];
+    Object.keys(entities).forEach((entityType) => {
+      const table = entityState?.[entityType]?.data ?? {};
+      let newTable = table;
+      Object.keys(entities[entityType]).forEach((id) => {
+        const mergedEntity = Objects.replaceEqualDeep(table[id], { ...(table[id] ?? {}), ...entities[entityType][id] });
+        if (mergedEntity !== table[id]) {
+          // copy the table on the first change only
+          newTable = newTable === table ? { ...table } : newTable;
+          newTable[id] = mergedEntity;
+        }
+      });
+      if (newTable !== table || !entityState?.[entityType]) {
+        entityState = {
+          ...(entityState ?? {}),
+          [entityType]: { status: 'loaded', data: newTable, paramHash: entityType, timestamp, maxCachingDepth: 0 },
+        };
+      }
+    });
+    return entityState === state[stateKey] ? state : { ...state, [stateKey]: entityState };
+  }
+}
@@ -1,5 +1,6 @@
 import { ApiHooks } from './apiHooks';
 import { ApiHooksStore } from './store';
+import { ApiHooksRetry } from './retry';
 /**
  * API Hooks - Events
  * ----------------
@@ -82,7 +83,13 @@ export namespace ApiHooksEvents {
   export type OnCacheUpdated = (state: ApiHooksStore.State, testKeys?: ApiHooksStore.TestKeyState) => void;
   export type OnFetchStart = (endpointID: string, parameters: any, hookType: ApiHooks.HookType) => void;
   export type OnFetchSuccess = (endpointID: string, parameters: any, hookType: ApiHooks.HookType, response: any) => void;
-  export type OnFetchError = (endpointID: string, parameters: any, hookType: ApiHooks.HookType, error: any) => void;
+  export type OnFetchError = (
+    endpointID: string,
+    parameters: any,
+    hookType: ApiHooks.HookType,
+    error: any,
+    attempt: ApiHooksRetry.AttemptDetails
+  ) => void;
 
   /** MANAGERS */
 
@@ -123,7 +130,8 @@ export namespace ApiHooksEvents {
 
   /**
    * The "onFetchError" event is triggered every time the APIHooks state is changed.
-   * - Callbacks will receive the endpointID, parameters (typed as any because it depends on the endpoint, can be cast.), hook type, and API error (typed as any)
+   * - Callbacks will receive the endpointID, parameters (typed as any because it depends on the endpoint, can be cast.), hook type, API error (typed as any) and the details of the failed attempt
+   * - If the request is being retried, the event will be triggered for every failed attempt, `willRetry` will be false for the final attempt
    */
   export const onFetchError = new EventManager<OnFetchError>();
 }
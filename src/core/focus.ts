@@ -0,0 +1,173 @@
+/**
+ * API Hooks - Focus
+ * ----------------
+ * Tracks whether the application has focus, and whether the network is online, so that stale queries can be re-fetched when the user comes back.
+ *
+ * This file contains everything relating to focus and online management, includes:
+ * - The focus manager, driven by the window focus and document visibility events by default
+ * - The online manager, driven by the window online/offline events by default
+ * - A way to plug in a different event source (i.e. React Native's `AppState`) or drive the managers directly from tests
+ */
+export namespace ApiHooksFocus {
+  /** TYPES */
+
+  /**
+   * A function which listens to an event source, calling `setActive` whenever the focus/online status changes
+   * @param setActive Sets whether the application is focused/online
+   * @returns (optional) A function to remove the listeners
+   */
+  export type EventListenerSetup = (setActive: (isActive: boolean) => void) => (() => void) | void;
+
+  /**
+   * A function called whenever the application regains focus, or comes back online
+   */
+  export type Listener = () => void;
+
+  /** MANAGER */
+
+  /**
+   * A manager for a single boolean status (focused or online)
+   * - Listeners are only called when the status changes from inactive to active
+   * - The event source is only listened to while there are listeners subscribed
+   */
+  class ActivityManager {
+    /** The listeners to call when the status becomes active */
+    private readonly listeners: Listener[] = [];
+
+    /** The function which listens to the event source */
+    private setup: EventListenerSetup;
+
+    /** Removes the event source listeners, set while there are subscribers */
+    private teardown?: () => void;
+
+    /** The current status */
+    private isActiveValue = true;
+
+    constructor(setup: EventListenerSetup) {
+      this.setup = setup;
+    }
+
+    /**
+     * Starts listening to the event source
+     */
+    private start() {
+      this.teardown = this.setup((isActive) => this.setActive(isActive)) || (() => undefined);
+    }
+
+    /**
+     * Stops listening to the event source
+     */
+    private stop() {
+      this.teardown?.();
+      this.teardown = undefined;
+    }
+
+    /**
+     * Gets the current status
+     * @returns A boolean - true if focused/online
+     */
+    public isActive(): boolean {
+      return this.isActiveValue;
+    }
+
+    /**
+     * Sets the current status, calling the listeners if the status has changed from inactive to active.
+     * - Can be called directly, i.e. from tests or non-browser hosts.
+     * @param isActive True if focused/online
+     */
+    public setActive(isActive: boolean) {
+      const wasActive = this.isActiveValue;
+      this.isActiveValue = isActive;
+      if (isActive && !wasActive) {
+        [...this.listeners].forEach((listener) => listener());
+      }
+    }
+
+    /**
+     * Replaces the event source, i.e. to listen to React Native's `AppState` rather than the browser window
+     * @param setup The function which listens to the new event source
+     */
+    public setEventListener(setup: EventListenerSetup) {
+      const isListening = !!this.teardown;
+      this.stop();
+      this.setup = setup;
+      if (isListening) {
+        this.start();
+      }
+    }
+
+    /**
+     * Registers a function to be called whenever the status changes from inactive to active
+     * @param listener The function to call
+     * @returns An "unsubscribe" function
+     */
+    public subscribe(listener: Listener): () => void {
+      this.listeners.push(listener);
+      if (!this.teardown) {
+        this.start();
+      }
+      return () => {
+        const index = this.listeners.indexOf(listener);
+        if (index > -1) {
+          this.listeners.splice(index, 1);
+        }
+        if (!this.listeners.length) {
+          this.stop();
+        }
+      };
+    }
+  }
+
+  /** DEFAULT EVENT SOURCES */
+
+  /**
+   * Listens to the window focus/blur and document visibility events, does nothing outside of a browser.
+   * @param setActive Sets whether the application is focused
+   */
+  export const windowFocusListener: EventListenerSetup = (setActive) => {
+    if (typeof window === 'undefined' || !window.addEventListener) {
+      return undefined;
+    }
+    const onFocus = () => setActive(true);
+    const onBlur = () => setActive(false);
+    const onVisibilityChange = () => setActive(document.visibilityState !== 'hidden');
+    window.addEventListener('focus', onFocus);
+    window.addEventListener('blur', onBlur);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('focus', onFocus);
+      window.removeEventListener('blur', onBlur);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  };
+
+  /**
+   * Listens to the window online/offline events, does nothing outside of a browser.
+   * @param setActive Sets whether the network is online
+   */
+  export const windowOnlineListener: EventListenerSetup = (setActive) => {
+    if (typeof window === 'undefined' || !window.addEventListener) {
+      return undefined;
+    }
+    const onOnline = () => setActive(true);
+    const onOffline = () => setActive(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  };
+
+  /** MANAGERS */
+
+  /**
+   * The focus manager, used by queries with the `refetchOnFocus` setting
+   */
+  export const focusManager = new ActivityManager(windowFocusListener);
+
+  /**
+   * The online manager, used by queries with the `refetchOnReconnect` setting
+   */
+  export const onlineManager = new ActivityManager(windowOnlineListener);
+}
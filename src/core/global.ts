@@ -4,130 +4,146 @@
  * Parsing of the generated API client into a set of hooks.
  *
  * This file contains everything relating to global background storage that doesn't require a render, includes:
- * - Live request management - for simultaneous request prevention
- * - Live component mount management - so we know when a query is actively used on screen by a component.
+ * - The deprecated live request, mount, read and pin management functions, which delegate to the query client of the mounted provider.
  */
 export namespace ApiHooksGlobal {
-  interface IGlobalStoreSlice {
-    isFetching: boolean;
-    mountCount: number;
+  /**
+   * The live request, mount, read and pin management methods of a query client, see `./client.ts`
+   */
+  interface IProviderClient {
+    isFetching: (endpointKey: string, cacheKeyValue: string) => boolean;
+    setFetching: (endpointKey: string, cacheKeyValue: string, isFetchingValue: boolean) => void;
+    setMounted: (endpointKey: string, cacheKeyValue: string) => void;
+    setUnMounted: (endpointKey: string, cacheKeyValue: string) => void;
+    isMounted: (endpointKey: string, cacheKeyValue: string) => boolean;
+    getUnMountedAt: (endpointKey: string, cacheKeyValue: string) => number | undefined;
+    setRead: (endpointKey: string, cacheKeyValue: string) => void;
+    getReadAt: (endpointKey: string, cacheKeyValue: string) => number | undefined;
+    setPinned: (endpointKey: string, cacheKeyValue: string, isPinnedValue: boolean) => void;
+    isPinned: (endpointKey: string, cacheKeyValue: string) => boolean;
   }
 
   /**
-   * Create an in-memory store for logging endpoints data.
-   * Background to isFetching: Because react batches updates through the reducer, we can't rely on the 'status = loading' action when blocking
-   * simultaneous calls to the same endpoint/cacheKey, we need an instant synchronous store in memory to do so.
+   * The query client of the most recently mounted provider, used by the deprecated live request, mount, read and pin management functions.
+   * NOTE: Live request management (for simultaneous request prevention), mount management (for garbage collection), and read and pin management (for the cache budget) are owned by the query client - see `./client.ts`
    */
-  const liveStore: { [key: string]: IGlobalStoreSlice } = {};
+  let providerClient: IProviderClient | undefined;
 
   /**
-   * Creates a unique key from an endpoint & cacheKey combination.
+   * Logs that an endpoint/cacheKey combination is being mounted in a component.
+   * @deprecated Mounts are logged by the query client, use `client.setMounted` instead. This delegates to the client of the most recently mounted provider.
    * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
    * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
    */
-  function createStoreKey(endpointKey: string, cacheKeyValue: string) {
-    return `${endpointKey}-${cacheKeyValue}`;
+  export function setMounted(endpointKey: string, cacheKeyValue: string) {
+    providerClient?.setMounted(endpointKey, cacheKeyValue);
   }
 
   /**
-   * Creates an empty global slice with default values.
+   * Logs that an endpoint/cacheKey combination is being un-mounted in a component.
+   * @deprecated Mounts are logged by the query client, use `client.setUnMounted` instead. This delegates to the client of the most recently mounted provider.
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
    */
-  function createEmptySlice(): IGlobalStoreSlice {
-    return { isFetching: false, mountCount: 0 };
+  export function setUnMounted(endpointKey: string, cacheKeyValue: string) {
+    providerClient?.setUnMounted(endpointKey, cacheKeyValue);
   }
 
   /**
-   * Checks whether a state slice matches the default values.
-   * @param slice The incoming state slice.
+   * Checks whether an endpoint/cacheKey combination is logged as currently mounted.
+   * @deprecated Mounts are logged by the query client, use `client.isMounted` instead. This delegates to the client of the most recently mounted provider.
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
    */
-  function sliceIsEmpty(slice?: IGlobalStoreSlice): boolean {
-    if (!slice) {
-      return true;
-    }
-    const defaultValues = createEmptySlice();
-    return Object.keys(slice).reduce<boolean>((value, key) => {
-      if (value) {
-        return defaultValues[key] === slice[key];
-      }
-      return value;
-    }, true);
+  export function isMounted(endpointKey: string, cacheKeyValue: string): boolean {
+    return !!providerClient?.isMounted(endpointKey, cacheKeyValue);
   }
 
   /**
-   * Modifies data in the store with null protection in place.
-   * @param existingSlice The existing global slice to modify (will be created of not exists)
-   * @param newData The new data to add to the global slice.
+   * Retrieves the time at which the last component using an endpoint/cacheKey combination was un-mounted.
+   * @deprecated Mounts are logged by the query client, use `client.getUnMountedAt` instead. This delegates to the client of the most recently mounted provider.
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   * @returns The UNIX timestamp of the un-mount, or undefined if the combination is mounted or has never been mounted.
    */
-  function setValueToSlice(existingSlice?: IGlobalStoreSlice, newData?: Partial<IGlobalStoreSlice>): IGlobalStoreSlice {
-    let sliceToReturn: IGlobalStoreSlice = createEmptySlice();
-    if (existingSlice) {
-      sliceToReturn = { ...sliceToReturn, ...existingSlice };
-    }
-    if (newData) {
-      sliceToReturn = { ...sliceToReturn, ...newData };
-    }
-    return sliceToReturn;
+  export function getUnMountedAt(endpointKey: string, cacheKeyValue: string): number | undefined {
+    return providerClient?.getUnMountedAt(endpointKey, cacheKeyValue);
   }
 
   /**
-   * Logs the endpoint/cacheKey combination as fetching or not, used to block simultaneous requests on component load.
+   * Logs that the data for an endpoint/cacheKey combination has just been read.
+   * @deprecated Reads are logged by the query client, use `client.setRead` instead. This delegates to the client of the most recently mounted provider.
    * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
    * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
-   * @param isFetchingValue Whether to set the endpoint/cacheKey as fetching or not.
    */
-  export function setFetching(endpointKey: string, cacheKeyValue: string, isFetchingValue: boolean) {
-    const storeKey = createStoreKey(endpointKey, cacheKeyValue);
-    liveStore[storeKey] = setValueToSlice(liveStore[storeKey], { isFetching: isFetchingValue });
-    if (sliceIsEmpty(liveStore[storeKey])) {
-      delete liveStore[storeKey];
-    }
+  export function setRead(endpointKey: string, cacheKeyValue: string) {
+    providerClient?.setRead(endpointKey, cacheKeyValue);
   }
 
   /**
-   * Checks whether an endpoint/cacheKey combination is logged as already fetching.
+   * Retrieves the time at which the data for an endpoint/cacheKey combination was last read, or last un-mounted if later.
+   * @deprecated Reads are logged by the query client, use `client.getReadAt` instead. This delegates to the client of the most recently mounted provider.
    * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
    * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   * @returns The UNIX timestamp of the last read, or undefined if the data has never been read.
    */
-  export function isFetching(endpointKey: string, cacheKeyValue: string): boolean {
-    const storeKey = createStoreKey(endpointKey, cacheKeyValue);
-    return !!liveStore[storeKey]?.isFetching;
+  export function getReadAt(endpointKey: string, cacheKeyValue: string): number | undefined {
+    return providerClient?.getReadAt(endpointKey, cacheKeyValue);
   }
 
   /**
-   * Logs that an endpoint/cacheKey combination is being mounted in a component.
+   * Logs the endpoint/cacheKey combination as pinned or not, pinned combinations are never evicted by the cache budget.
+   * @deprecated Pins are logged by the query client, use `client.setPinned` instead. This delegates to the client of the most recently mounted provider.
    * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
    * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   * @param isPinnedValue Whether to set the endpoint/cacheKey as pinned or not.
    */
-  export function setMounted(endpointKey: string, cacheKeyValue: string) {
-    const storeKey = createStoreKey(endpointKey, cacheKeyValue);
-    const currentValue = liveStore[storeKey]?.mountCount ?? 0;
-    liveStore[storeKey] = setValueToSlice(liveStore[storeKey], { mountCount: currentValue + 1 });
-    if (sliceIsEmpty(liveStore[storeKey])) {
-      delete liveStore[storeKey];
-    }
+  export function setPinned(endpointKey: string, cacheKeyValue: string, isPinnedValue: boolean) {
+    providerClient?.setPinned(endpointKey, cacheKeyValue, isPinnedValue);
   }
 
   /**
-   * Logs that an endpoint/cacheKey combination is being un-mounted in a component.
+   * Checks whether an endpoint/cacheKey combination is logged as pinned.
+   * @deprecated Pins are logged by the query client, use `client.isPinned` instead. This delegates to the client of the most recently mounted provider.
    * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
    * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
    */
-  export function setUnMounted(endpointKey: string, cacheKeyValue: string) {
-    const storeKey = createStoreKey(endpointKey, cacheKeyValue);
-    const currentValue = liveStore[storeKey]?.mountCount ?? 0;
-    liveStore[storeKey] = setValueToSlice(liveStore[storeKey], { mountCount: currentValue ? currentValue - 1 : 0 });
-    if (sliceIsEmpty(liveStore[storeKey])) {
-      delete liveStore[storeKey];
-    }
+  export function isPinned(endpointKey: string, cacheKeyValue: string): boolean {
+    return !!providerClient?.isPinned(endpointKey, cacheKeyValue);
   }
 
   /**
-   * Checks whether an endpoint/cacheKey combination is logged as currently mounted.
+   * Connects the query client of a provider to the deprecated live request, mount, read and pin management functions, called by the provider when it mounts.
+   * @param client The query client of the provider
+   * @returns A "disconnect" function, to be called when the provider un-mounts
+   */
+  export function connectProviderClient(client: IProviderClient) {
+    providerClient = client;
+    return () => {
+      if (providerClient === client) {
+        providerClient = undefined;
+      }
+    };
+  }
+
+  /**
+   * Logs the endpoint/cacheKey combination as fetching or not, used to block simultaneous requests on component load.
+   * @deprecated Requests in progress are tracked by the query client, use `client.setFetching` instead. This delegates to the client of the most recently mounted provider.
    * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
    * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   * @param isFetchingValue Whether to set the endpoint/cacheKey as fetching or not.
    */
-  export function isMounted(endpointKey: string, cacheKeyValue: string): boolean {
-    const storeKey = createStoreKey(endpointKey, cacheKeyValue);
-    return !!(liveStore[storeKey]?.mountCount > 0);
+  export function setFetching(endpointKey: string, cacheKeyValue: string, isFetchingValue: boolean) {
+    providerClient?.setFetching(endpointKey, cacheKeyValue, isFetchingValue);
+  }
+
+  /**
+   * Checks whether an endpoint/cacheKey combination is logged as already fetching.
+   * @deprecated Requests in progress are tracked by the query client, use `client.isFetching` instead. This delegates to the client of the most recently mounted provider.
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   */
+  export function isFetching(endpointKey: string, cacheKeyValue: string): boolean {
+    return !!providerClient?.isFetching(endpointKey, cacheKeyValue);
   }
 }
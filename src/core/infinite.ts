@@ -0,0 +1,189 @@
+import { ApiHooks } from './apiHooks';
+import { ApiHooksCaching } from './caching';
+
+/**
+ * API Hooks - Infinite
+ * ----------------
+ * Stores several pages of a paginated endpoint in a single state slice, for infinite scrolling lists.
+ *
+ * This file contains everything relating to infinite queries, includes:
+ * - Infinite query data and settings types
+ * - Page param utilities
+ * - The requests used by the `useInfiniteQuery` hook to fetch every loaded page, or a single new page
+ */
+export namespace ApiHooksInfinite {
+  /** TYPES */
+
+  /**
+   * The data stored for an infinite query
+   */
+  export interface Data<TResponse, TPageParam = any> {
+    /** The response for each loaded page, in order */
+    pages: TResponse[];
+    /** The page params used to fetch each loaded page, in the same order as the pages */
+    pageParams: TPageParam[];
+  }
+
+  /** The direction to fetch a new page in */
+  export type Direction = 'next' | 'previous';
+
+  /**
+   * Returns the params for the next/previous page (i.e. `{ cursor: lastPage.nextCursor }` or `{ page: 3 }`), which are added to the query parameters. Returns undefined or null if there are no more pages.
+   */
+  export type GetPageParam<TParam, TResponse> = (
+    page: TResponse,
+    allPages: TResponse[],
+    pageParam: Partial<TParam>
+  ) => Partial<TParam> | undefined | null;
+
+  /**
+   * The infinite query specific settings, passed to the `useInfiniteQuery` hook alongside the standard query settings
+   */
+  export interface Settings<TParam, TResponse> {
+    /**
+     * (optional) The params for the first page, added to the query parameters.
+     * @example { page: 1 }
+     */
+    initialPageParam?: Partial<TParam>;
+    /**
+     * Returns the params for the page after the last loaded page, receives the last page, all pages and the params used to fetch the last page. Returns undefined or null if there are no more pages.
+     * @example (lastPage) => lastPage.nextCursor ? { cursor: lastPage.nextCursor } : undefined
+     */
+    getNextPageParam: GetPageParam<TParam, TResponse>;
+    /**
+     * (optional) Returns the params for the page before the first loaded page, receives the first page, all pages and the params used to fetch the first page. Returns undefined or null if there are no more pages.
+     */
+    getPreviousPageParam?: GetPageParam<TParam, TResponse>;
+  }
+
+  /**
+   * A function which fetches a single page with the given parameters, passed to the infinite query requests by the query runner
+   */
+  export type PageFetcher = (parameters: any) => Promise<any>;
+
+  /**
+   * A custom request for a query, receives the page fetcher, the query settings, and the data stored for the same parameters (if any)
+   * @returns A promise of the data to store
+   */
+  export type Request = (fetchSinglePage: PageFetcher, settings: any, storedData?: Data<any>) => Promise<Data<any>>;
+
+  /** CONSTANTS */
+
+  /** The prefix added to the cacheKey values of infinite queries */
+  export const cacheKeyPrefix = 'infinite:';
+
+  /** UTILITIES */
+
+  /**
+   * Checks whether a stored value is infinite query data
+   * @param data The stored data
+   */
+  export function isData(data: any): data is Data<any> {
+    return !!data && Array.isArray(data.pages) && Array.isArray(data.pageParams);
+  }
+
+  /**
+   * Gets the params of the page before or after the loaded pages
+   * @param settings The infinite query settings
+   * @param data The stored data
+   * @param direction The direction of the page
+   * @returns The page params, or undefined if there are no more pages in that direction
+   */
+  export function getPageParam<TParam, TResponse>(
+    settings: Settings<TParam, TResponse>,
+    data: Data<TResponse, Partial<TParam>>,
+    direction: Direction
+  ): Partial<TParam> | undefined {
+    if (!data.pages.length) {
+      return undefined;
+    }
+    const pageParam =
+      direction === 'next'
+        ? settings.getNextPageParam(data.pages[data.pages.length - 1], data.pages, data.pageParams[data.pageParams.length - 1])
+        : settings.getPreviousPageParam?.(data.pages[0], data.pages, data.pageParams[0]);
+    return pageParam ?? undefined;
+  }
+
+  /**
+   * Checks whether there's a page before or after the loaded pages
+   * @param settings The infinite query settings
+   * @param data The stored data
+   * @param direction The direction of the page
+   */
+  export function hasPage(settings: Settings<any, any>, data: any, direction: Direction): boolean {
+    return isData(data) && getPageParam(settings, data, direction) !== undefined;
+  }
+
+  /**
+   * Adds the page params to the query parameters
+   * @param parameters The query parameters
+   * @param pageParam The page params
+   */
+  function withPageParam(parameters: any, pageParam: any) {
+    return { ...(parameters ?? {}), ...(pageParam ?? {}) };
+  }
+
+  /** REQUESTS */
+
+  /**
+   * The request used for every fetch made by the query itself (on mount, param change, refetch etc.)
+   * - If no pages are stored for the parameters, only the first page is fetched
+   * - Otherwise every loaded page is re-fetched in order, starting from the first page param, with the params of each following page calculated from the fresh responses (so that a changed cursor is never re-used)
+   */
+  export const refetchPages: Request = async (fetchSinglePage, settings: Settings<any, any> & { parameters?: any }, storedData) => {
+    const pageCount = isData(storedData) && storedData.pages.length ? storedData.pages.length : 1;
+    const data: Data<any> = { pages: [], pageParams: [] };
+    let pageParam = isData(storedData) && storedData.pageParams.length ? storedData.pageParams[0] : settings.initialPageParam ?? {};
+    for (let index = 0; index < pageCount; index += 1) {
+      if (index > 0) {
+        pageParam = getPageParam(settings, data, 'next');
+        if (pageParam === undefined) {
+          break;
+        }
+      }
+      // each page param depends on the previous page, so they must be fetched in order
+      // eslint-disable-next-line no-await-in-loop
+      data.pages.push(await fetchSinglePage(withPageParam(settings.parameters, pageParam)));
+      data.pageParams.push(pageParam);
+    }
+    return data;
+  };
+
+  /**
+   * Creates the request used to fetch a new page, and add it to the start or end of the stored pages
+   * @param direction The direction of the page
+   * @returns The request
+   */
+  export function fetchPage(direction: Direction): Request {
+    return async (fetchSinglePage, settings: Settings<any, any> & { parameters?: any }, storedData) => {
+      // the parameters have changed since the pages were loaded, start again from the first page
+      if (!isData(storedData) || !storedData.pages.length) {
+        return refetchPages(fetchSinglePage, settings, undefined);
+      }
+      const pageParam = getPageParam(settings, storedData, direction);
+      if (pageParam === undefined) {
+        return storedData;
+      }
+      const page = await fetchSinglePage(withPageParam(settings.parameters, pageParam));
+      return direction === 'next'
+        ? { pages: [...storedData.pages, page], pageParams: [...storedData.pageParams, pageParam] }
+        : { pages: [page, ...storedData.pages], pageParams: [pageParam, ...storedData.pageParams] };
+    };
+  }
+
+  /**
+   * Creates the cacheKey setting for an infinite query, so that the pages are never stored in the same state slice as a standard query for the same endpoint.
+   * - If the cacheKey parameter has no value, the default cache key is returned, so that invocation can be held until it has one.
+   * @param cacheKey The cacheKey setting from the query settings
+   * @returns The infinite query cacheKey setting
+   */
+  export function createCacheKey<TParam>(cacheKey?: ApiHooks.CacheKey<TParam>): ApiHooks.CacheKey<TParam> {
+    return (params: TParam, context?: any) => {
+      const cacheKeyValue = ApiHooksCaching.parseCacheKey(params, cacheKey, context);
+      if (cacheKey && cacheKeyValue === ApiHooksCaching.defaultCacheKey) {
+        return '';
+      }
+      return `${cacheKeyPrefix}${cacheKeyValue}`;
+    };
+  }
+}
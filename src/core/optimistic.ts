@@ -0,0 +1,296 @@
+import * as React from 'react';
+import { Objects } from '../utils/objects';
+import { ApiHooksStore } from './store';
+import { EndpointIDs } from './endpointIDs';
+import { ApiHooksEntities } from './entities';
+
+/**
+ * API Hooks - Optimistic
+ * ----------------
+ * Provisional updates applied to query cache by a mutation before the server has responded.
+ *
+ * This file contains everything relating to optimistic updates, includes:
+ * - Optimistic update types
+ * - The register of pending optimistic layers, kept on each client
+ * - Apply, commit and rollback functions
+ */
+export namespace ApiHooksOptimistic {
+  /** TYPES */
+
+  /**
+   * A function that receives the data currently cached for a query, and the parameters sent to the mutation, and returns the provisional data to show.
+   */
+  export type Updater<TParam, TData = any> = (currentData: TData, params: Partial<TParam>) => TData;
+
+  /**
+   * What to do with the provisional data once the mutation has succeeded
+   * - `keep` will leave the provisional data in place as the cached data.
+   * - `refetch` will leave the provisional data in place until the query has been re-fetched from the server.
+   */
+  export type SuccessMode = 'keep' | 'refetch';
+
+  /**
+   * A single optimistic update declaration, targets a query cache by endpoint ID.
+   */
+  export interface Update<TParam, TData = any> {
+    /**
+     * The endpoint ID of the query to update, the cache key is resolved in the same way as a refetch query. If no cache key is resolved, the default cache key is used.
+     */
+    endpointId: EndpointIDs.Response<TParam>;
+    /**
+     * Receives the currently cached data and the mutation params, returns the provisional data.
+     */
+    updater: Updater<TParam, TData>;
+    /**
+     * (optional) What to do with the provisional data once the mutation has succeeded
+     * @default keep
+     */
+    onSuccess?: SuccessMode;
+  }
+
+  /** An array of optimistic updates, or a function that receives the mutation settings and returns them. */
+  export type UpdateDefinition<TParam, TSettings> = Update<TParam>[] | ((settings: TSettings) => Update<TParam>[]);
+
+  /**
+   * A reference to an optimistic layer that has been applied to a state slice, used to commit or roll it back.
+   */
+  export interface AppliedLayer {
+    /** A key specific to the endpoint (in format `controller.endpoint`) */
+    endpointKey: string;
+    /** The key of the state slice the layer was applied to */
+    cacheKeyValue: string;
+    /** The unique ID of the layer */
+    layerId: number;
+    /** What to do with the provisional data once the mutation has succeeded */
+    onSuccess: SuccessMode;
+  }
+
+  /** A single pending update held against a state slice */
+  export interface Layer {
+    id: number;
+    updater: Updater<any>;
+    params: any;
+  }
+
+  /** The register entry for a state slice with one or more pending layers */
+  export interface Entry {
+    /** The state slice as it was before any of the pending layers were applied */
+    base: ApiHooksStore.StateSlice<any>;
+    /** The provisional data last written to the store, used to detect writes from elsewhere */
+    current: any;
+    /** The pending layers in the order they were applied */
+    layers: Layer[];
+  }
+
+  /**
+   * The register of pending layers, keyed by endpoint/cacheKey combination. Each client holds its own register.
+   * Background: mutations can overlap, so each slice keeps its original state plus every pending layer, allowing a single layer to be removed without losing the others.
+   */
+  export type PendingStore = { [key: string]: Entry };
+
+  type Dispatch = React.Dispatch<ApiHooksStore.Actions.GenericAction> | undefined;
+
+  /** An incrementing ID for each applied layer */
+  let nextLayerId = 1;
+
+  /** UTILITIES */
+
+  /**
+   * Creates a unique key from an endpoint & cacheKey combination.
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   */
+  function createStoreKey(endpointKey: string, cacheKeyValue: string) {
+    return `${endpointKey}-${cacheKeyValue}`;
+  }
+
+  /**
+   * Reads a state slice from the state, denormalising the data if the endpoint has a normaliser.
+   * @param state The current state object
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   * @param current (optional) The provisional data last written to the store
+   */
+  function readStateSlice(state: ApiHooksStore.State, endpointKey: string, cacheKeyValue: string, current?: any) {
+    const stateSlice = state[endpointKey]?.[cacheKeyValue];
+    if (!stateSlice || !ApiHooksEntities.getNormaliser(endpointKey)) {
+      return stateSlice;
+    }
+    // denormalised data is a new object every time it's read, so share structure with the data last written to keep it comparable
+    return { ...stateSlice, data: Objects.replaceEqualDeep(current, ApiHooksEntities.denormalise(state, endpointKey, stateSlice.data)) };
+  }
+
+  /**
+   * Applies each pending layer in order on top of the base data.
+   * @param entry The register entry to compile
+   * @returns The provisional data to show
+   */
+  function compileData(entry: Entry) {
+    return entry.layers.reduce((data, layer) => layer.updater(data, layer.params), entry.base.data);
+  }
+
+  /**
+   * If the slice in state no longer holds the data last written by this module, something else (usually a query fetch) has written to it.
+   * In this case the new slice becomes the base that pending layers are applied on top of.
+   * @param entry The register entry to check
+   * @param stateSlice The current state slice from the store
+   */
+  function syncBase(entry: Entry, stateSlice?: ApiHooksStore.StateSlice<any>) {
+    if (stateSlice && stateSlice.data !== entry.current) {
+      // eslint-disable-next-line no-param-reassign
+      entry.base = stateSlice;
+    }
+  }
+
+  /**
+   * Writes the compiled provisional data to the store, retaining the timestamp of the base slice so that cache validity is unaffected.
+   * @param entry The register entry to write
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   * @param dispatch The store dispatch method
+   */
+  function writeEntry(entry: Entry, endpointKey: string, cacheKeyValue: string, dispatch: Dispatch) {
+    const data = compileData(entry);
+    // eslint-disable-next-line no-param-reassign
+    entry.current = data;
+    dispatch?.(
+      ApiHooksStore.Actions.loaded(endpointKey, entry.base.paramHash, cacheKeyValue, data, entry.base.maxCachingDepth, entry.base.timestamp)
+    );
+  }
+
+  /** FUNCTIONS */
+
+  /**
+   * Applies a provisional update to a state slice.
+   * - Nothing will be applied if there is no data cached for the endpoint/cacheKey combination, the updater is not called.
+   * @param pendingStore The register of pending layers for the client
+   * @param state The current state object
+   * @param dispatch The store dispatch method
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   * @param updater The function that creates the provisional data
+   * @param params The parameters sent to the mutation
+   * @returns The ID of the applied layer, or undefined if nothing was applied. If the updater throws, nothing is applied and the error is re-thrown.
+   */
+  export function apply(
+    pendingStore: PendingStore,
+    state: ApiHooksStore.State,
+    dispatch: Dispatch,
+    endpointKey: string,
+    cacheKeyValue: string,
+    updater: Updater<any>,
+    params: any
+  ): number | undefined {
+    const storeKey = createStoreKey(endpointKey, cacheKeyValue);
+    let entry = pendingStore[storeKey];
+    const stateSlice = readStateSlice(state, endpointKey, cacheKeyValue, entry?.current);
+    if (!entry) {
+      if (stateSlice?.data === undefined) {
+        return undefined;
+      }
+      entry = { base: stateSlice, current: stateSlice.data, layers: [] };
+      // eslint-disable-next-line no-param-reassign
+      pendingStore[storeKey] = entry;
+    } else {
+      syncBase(entry, stateSlice);
+    }
+    const id = nextLayerId;
+    nextLayerId += 1;
+    entry.layers.push({ id, updater, params });
+    try {
+      writeEntry(entry, endpointKey, cacheKeyValue, dispatch);
+    } catch (error) {
+      // the updater has thrown, remove the layer so that it isn't applied along with the layers still pending
+      entry.layers.pop();
+      if (!entry.layers.length) {
+        // eslint-disable-next-line no-param-reassign
+        delete pendingStore[storeKey];
+      }
+      throw error;
+    }
+    return id;
+  }
+
+  /**
+   * Confirms a provisional update once the mutation has succeeded, the update becomes part of the base data for any layers still pending.
+   * @param pendingStore The register of pending layers for the client
+   * @param state The current state object
+   * @param dispatch The store dispatch method
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   * @param layerId The ID returned when the layer was applied
+   */
+  export function commit(
+    pendingStore: PendingStore,
+    state: ApiHooksStore.State,
+    dispatch: Dispatch,
+    endpointKey: string,
+    cacheKeyValue: string,
+    layerId: number
+  ) {
+    const storeKey = createStoreKey(endpointKey, cacheKeyValue);
+    const entry = pendingStore[storeKey];
+    const layer = entry?.layers.find((l) => l.id === layerId);
+    if (!entry || !layer) {
+      return;
+    }
+    const stateSlice = readStateSlice(state, endpointKey, cacheKeyValue, entry.current);
+    const overwritten = !!stateSlice && stateSlice.data !== entry.current;
+    syncBase(entry, stateSlice);
+    entry.base = { ...entry.base, data: layer.updater(entry.base.data, layer.params) };
+    entry.layers.splice(entry.layers.indexOf(layer), 1);
+    if (overwritten) {
+      writeEntry(entry, endpointKey, cacheKeyValue, dispatch);
+    }
+    if (!entry.layers.length) {
+      // eslint-disable-next-line no-param-reassign
+      delete pendingStore[storeKey];
+    }
+  }
+
+  /**
+   * Removes a provisional update once the mutation has failed.
+   * - If other layers are still pending, they are re-applied on top of the base data.
+   * - If no other layers are pending, the state slice is restored to the exact data and timestamp it had before the first layer was applied.
+   * @param pendingStore The register of pending layers for the client
+   * @param state The current state object
+   * @param dispatch The store dispatch method
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   * @param layerId The ID returned when the layer was applied
+   */
+  export function rollback(
+    pendingStore: PendingStore,
+    state: ApiHooksStore.State,
+    dispatch: Dispatch,
+    endpointKey: string,
+    cacheKeyValue: string,
+    layerId: number
+  ) {
+    const storeKey = createStoreKey(endpointKey, cacheKeyValue);
+    const entry = pendingStore[storeKey];
+    const layer = entry?.layers.find((l) => l.id === layerId);
+    if (!entry || !layer) {
+      return;
+    }
+    syncBase(entry, readStateSlice(state, endpointKey, cacheKeyValue, entry.current));
+    entry.layers.splice(entry.layers.indexOf(layer), 1);
+    if (entry.layers.length) {
+      writeEntry(entry, endpointKey, cacheKeyValue, dispatch);
+      return;
+    }
+    // eslint-disable-next-line no-param-reassign
+    delete pendingStore[storeKey];
+    dispatch?.(ApiHooksStore.Actions.restored(endpointKey, cacheKeyValue, entry.base));
+  }
+
+  /**
+   * Checks whether an endpoint/cacheKey combination currently has any provisional updates pending.
+   * @param pendingStore The register of pending layers for the client
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+   */
+  export function isPending(pendingStore: PendingStore, endpointKey: string, cacheKeyValue: string): boolean {
+    return !!pendingStore[createStoreKey(endpointKey, cacheKeyValue)];
+  }
+}
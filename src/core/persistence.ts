@@ -0,0 +1,295 @@
+import { ApiHooksCaching } from './caching';
+import { EndpointIDs } from './endpointIDs';
+import { ApiHooksEntities } from './entities';
+import { ApiHooksEvents } from './events';
+import { ApiHooksStore } from './store';
+
+/**
+ * API Hooks - Persistence
+ * ----------------
+ * Persists the cached API Hooks state to an external storage container so that it survives a reload.
+ *
+ * This file contains everything relating to cache persistence, includes:
+ * - Storage adapter types
+ * - Persistence settings
+ * - The persister, which wires itself into the `onBeforeInitialState` and `onCacheUpdated` events
+ */
+export namespace ApiHooksPersistence {
+  /** TYPES */
+
+  /** A value returned from a storage adapter, can be returned synchronously or as a promise */
+  type MaybePromise<T> = T | Promise<T>;
+
+  /**
+   * The interface for a storage container, can be synchronous (e.g. `localStorage`) or asynchronous (e.g. `AsyncStorage` or IndexedDB)
+   */
+  export interface StorageAdapter {
+    /** Retrieves a stored string by key, should return null or undefined if nothing is stored */
+    get: (key: string) => MaybePromise<string | null | undefined>;
+    /** Stores a string against a key */
+    set: (key: string, value: string) => MaybePromise<void>;
+    /** Removes a stored string by key */
+    remove: (key: string) => MaybePromise<void>;
+  }
+
+  /**
+   * The lists of endpoints to allow or deny, see `EndpointIDs.Filter`
+   */
+  export type EndpointFilter = EndpointIDs.Filter;
+
+  /**
+   * The settings passed to the `create` function.
+   */
+  export interface Settings {
+    /** The storage container to persist the cache to */
+    adapter: StorageAdapter;
+    /** The version of the cache schema, any persisted cache with a different version will be dropped. Change this whenever your API responses change shape */
+    version: string | number;
+    /**
+     * (optional) The key to store the cache against in the storage container
+     * @default 'api-hooks-cache'
+     */
+    key?: string;
+    /**
+     * (optional) State slices older than this value (based on the timestamp of the last request) will not be persisted or restored
+     * @default ApiHooksCaching.Days.one()
+     */
+    maxAge?: ApiHooksCaching.Directive;
+    /** (optional) The endpoints to allow or deny */
+    endpoints?: EndpointFilter;
+    /**
+     * (optional) The minimum number of milliseconds between writes to the storage container
+     * @default 1000
+     */
+    throttle?: number;
+  }
+
+  /** The shape of the data written to the storage container */
+  interface PersistedCache {
+    version: string | number;
+    state: ApiHooksStore.State;
+  }
+
+  /** CONSTANTS */
+
+  /** The default key to store the cache against in the storage container. */
+  export const defaultStorageKey = 'api-hooks-cache';
+
+  /** The default number of milliseconds between writes to the storage container. */
+  export const defaultThrottle = 1000;
+
+  /** UTILITIES */
+
+  /**
+   * Root warning function, just a proxy for the console warn for now.
+   * @param messages The items to warn
+   */
+  function warn(...messages: any[]) {
+    // eslint-disable-next-line no-console
+    console.warn(...messages);
+  }
+
+  /**
+   * Reduces a state object down to the state slices that are safe to persist.
+   * - Slices without data are removed, and loading/error/refetch information is stripped so that restored slices are always "loaded"
+   * - Slices that have exceeded the max age are removed
+   * - Slices for endpoints that are denied (or not allowed) are removed
+   * @param state The state object to sanitize
+   * @param settings The persistence settings
+   * @returns A new state object containing only the slices to persist/restore
+   */
+  function sanitizeState(state: ApiHooksStore.State, settings: Settings): ApiHooksStore.State {
+    const maxAge = settings.maxAge ?? ApiHooksCaching.Days.one();
+    return Object.keys(state ?? {}).reduce<ApiHooksStore.State>((memo, endpointKey) => {
+      const endpointState = Object.keys(state[endpointKey] ?? {}).reduce<ApiHooksStore.State[string]>((endpointMemo, cacheKeyValue) => {
+        const stateSlice = state[endpointKey][cacheKeyValue];
+        if (
+          !stateSlice ||
+          stateSlice.data === undefined ||
+          // default data and initial data aren't cached data, they're re-created by the hooks
+          stateSlice.isPlaceholder ||
+          ApiHooksCaching.isStale(stateSlice, maxAge) ||
+          // the entity tables are referenced by the persisted queries, so they're not filtered by endpoint
+          (endpointKey !== ApiHooksEntities.stateKey && !EndpointIDs.isAllowed(settings.endpoints, endpointKey, cacheKeyValue))
+        ) {
+          return endpointMemo;
+        }
+        return {
+          ...endpointMemo,
+          [cacheKeyValue]: {
+            status: 'loaded',
+            data: stateSlice.data,
+            paramHash: stateSlice.paramHash,
+            timestamp: stateSlice.timestamp,
+            maxCachingDepth: stateSlice.maxCachingDepth,
+            tags: stateSlice.tags,
+          },
+        };
+      }, {});
+      if (!Object.keys(endpointState).length) {
+        return memo;
+      }
+      return { ...memo, [endpointKey]: endpointState };
+    }, {});
+  }
+
+  /**
+   * Parses a string read from the storage container, dropping it if it's invalid or the version doesn't match.
+   * @param value The string read from the storage container
+   * @param settings The persistence settings
+   * @returns The sanitized state, or undefined if the persisted cache should be dropped
+   */
+  function parsePersistedCache(value: string | null | undefined, settings: Settings): ApiHooksStore.State | undefined {
+    if (!value) {
+      return undefined;
+    }
+    try {
+      const persisted: PersistedCache = JSON.parse(value);
+      if (persisted?.version !== settings.version) {
+        return undefined;
+      }
+      return sanitizeState(persisted.state, settings);
+    } catch (error) {
+      warn('API Hooks Persistence WARNING! - Persisted cache could not be parsed and has been dropped', error);
+      return undefined;
+    }
+  }
+
+  /** PERSISTER */
+
+  /** The persister class created by the `create` function, wires itself into the API Hooks events. */
+  class Persister {
+    /** The persistence settings */
+    private readonly settings: Settings;
+
+    /** The state restored from an asynchronous storage container, ready to be returned synchronously as the initial state */
+    private restoredState?: ApiHooksStore.State;
+
+    /** The latest state waiting to be written to the storage container */
+    private pendingState?: ApiHooksStore.State;
+
+    /** The timer for the next throttled write */
+    private writeTimer?: ReturnType<typeof setTimeout>;
+
+    /** The "unsubscribe" methods for the registered event hooks */
+    private readonly unsubscribers: (() => void)[];
+
+    constructor(settings: Settings) {
+      this.settings = settings;
+      this.unsubscribers = [
+        ApiHooksEvents.onBeforeInitialState.addEventHook(this.onBeforeInitialState),
+        ApiHooksEvents.onCacheUpdated.addEventHook(this.onCacheUpdated),
+      ];
+    }
+
+    /** The key to store the cache against in the storage container */
+    private get key() {
+      return this.settings.key ?? defaultStorageKey;
+    }
+
+    /**
+     * Removes the persisted cache from the storage container, logging any errors.
+     */
+    private drop() {
+      Promise.resolve(this.settings.adapter.remove(this.key)).catch((error) =>
+        warn('API Hooks Persistence WARNING! - Failed to remove cache', error)
+      );
+    }
+
+    /**
+     * Reads the persisted cache from a value returned by the storage container, dropping it from storage if it's invalid.
+     * @param value The string read from the storage container
+     */
+    private read(value: string | null | undefined) {
+      const state = parsePersistedCache(value, this.settings);
+      if (value && !state) {
+        this.drop();
+      }
+      return state;
+    }
+
+    /**
+     * Called by the "onBeforeInitialState" event, returns the persisted state if it's available synchronously.
+     */
+    private onBeforeInitialState = (): ApiHooksStore.State | undefined => {
+      if (this.restoredState) {
+        return this.restoredState;
+      }
+      const value = this.settings.adapter.get(this.key);
+      if (value instanceof Promise) {
+        warn('API Hooks Persistence WARNING! - The storage adapter is asynchronous, `restore` must be awaited before the provider is rendered.');
+        return undefined;
+      }
+      return this.read(value);
+    };
+
+    /**
+     * Called by the "onCacheUpdated" event, schedules a throttled write.
+     * @param state The updated cache state
+     */
+    private onCacheUpdated = (state: ApiHooksStore.State) => {
+      this.pendingState = state;
+      if (!this.writeTimer) {
+        this.writeTimer = setTimeout(() => {
+          this.flush().catch((error) => warn('API Hooks Persistence WARNING! - Failed to write cache', error));
+        }, this.settings.throttle ?? defaultThrottle);
+      }
+    };
+
+    /**
+     * Reads the persisted cache ahead of the initial render. Must be awaited before the provider is rendered when using an asynchronous storage container.
+     */
+    public async restore() {
+      this.restoredState = this.read(await this.settings.adapter.get(this.key));
+    }
+
+    /**
+     * Immediately writes any state waiting to be written to the storage container.
+     */
+    public async flush() {
+      if (this.writeTimer) {
+        clearTimeout(this.writeTimer);
+        this.writeTimer = undefined;
+      }
+      if (!this.pendingState) {
+        return;
+      }
+      const persisted: PersistedCache = { version: this.settings.version, state: sanitizeState(this.pendingState, this.settings) };
+      this.pendingState = undefined;
+      await this.settings.adapter.set(this.key, JSON.stringify(persisted));
+    }
+
+    /**
+     * Removes the persisted cache from the storage container, and discards anything waiting to be written.
+     */
+    public async clear() {
+      if (this.writeTimer) {
+        clearTimeout(this.writeTimer);
+        this.writeTimer = undefined;
+      }
+      this.pendingState = undefined;
+      this.restoredState = undefined;
+      await this.settings.adapter.remove(this.key);
+    }
+
+    /**
+     * Removes the event hooks registered by this persister, any state waiting to be written will be discarded.
+     */
+    public unregister() {
+      if (this.writeTimer) {
+        clearTimeout(this.writeTimer);
+        this.writeTimer = undefined;
+      }
+      this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    }
+  }
+
+  /**
+   * Creates a persister and wires it into the API Hooks events, should be called once before the provider is rendered.
+   * @param settings The persistence settings, including the storage adapter
+   * @returns The persister
+   */
+  export function create(settings: Settings) {
+    return new Persister(settings);
+  }
+}
@@ -1,6 +1,7 @@
 import * as React from 'react';
 import { ApiHooks } from './apiHooks';
 import { ApiHooksCaching } from './caching';
+import { ApiHooksEntities } from './entities';
 import { ApiHooksStore } from './store';
 import { ApiHooksSystemSettings } from './systemSettings';
 
@@ -113,7 +114,7 @@ export namespace ApiHooksResponders {
   }
 
   /** type denoting a responder hook created by the factory to be passed into the provider */
-  export type ResponderHook = (state: ApiHooksStore.State, dispatch?: React.Dispatch<ApiHooksStore.Actions.GenericAction>) => void;
+  export type ResponderHook = (getState: () => ApiHooksStore.State, dispatch?: React.Dispatch<ApiHooksStore.Actions.GenericAction>) => void;
 
   /** type denoting an individual responder function defined by the consuming application */
   export type Responder<TApiClient = any> = (params: ResponderParams<TApiClient>) => void;
@@ -160,7 +161,7 @@ export namespace ApiHooksResponders {
     /** the root `use` function allows the consuming app to create responders. */
     public use(responder: Responder<TApiClient>) {
       /** A new responder hook is created */
-      const responderHook: ResponderHook = (state, dispatch) => {
+      const responderHook: ResponderHook = (getState, dispatch) => {
         /** a memo of tools to pass back to the new responder */
         const params = React.useMemo(
           () => ({
@@ -181,12 +182,12 @@ export namespace ApiHooksResponders {
             getCache: (controllerKey: string, endpointKey: string, incomingCacheKey: string) => {
               const endpointHash = `${controllerKey}.${endpointKey}`;
               const cacheKey = incomingCacheKey ?? ApiHooksCaching.defaultCacheKey;
-              return state?.[endpointHash]?.[cacheKey]?.data;
+              return ApiHooksEntities.getData(getState(), endpointHash, cacheKey);
             },
             setCache: (controllerKey: string, endpointKey: string, incomingData: string, incomingCacheKey: string, incomingParams: any) => {
               const endpointHash = `${controllerKey}.${endpointKey}`;
               const cacheKey = incomingCacheKey ?? ApiHooksCaching.defaultCacheKey;
-              const existingSlice = state?.[endpointHash]?.[cacheKey];
+              const existingSlice = getState()[endpointHash]?.[cacheKey];
               dispatch?.(
                 ApiHooksStore.Actions.loaded(
                   endpointHash,
@@ -198,7 +199,7 @@ export namespace ApiHooksResponders {
               );
             },
           }),
-          [state, dispatch]
+          [getState, dispatch]
         );
         return responder(params as ResponderParams<TApiClient>);
       };
@@ -224,8 +225,9 @@ export namespace ApiHooksResponders {
    * FURTHER NOTE: armstrong users - please add this component INSIDE armstrong, (the APIHooks store provider should always be OUTSIDE armstrong)
    * */
   export const Provider: React.FC<React.PropsWithChildren<IProviderProps>> = ({ children, responders }) => {
-    const [state, dispatch] = React.useContext(ApiHooksStore.Context);
-    responders.forEach((responderHook) => responderHook(state, dispatch));
+    const [client] = React.useContext(ApiHooksStore.ClientContext);
+    const getState = React.useCallback(() => client?.getState() ?? {}, [client]);
+    responders.forEach((responderHook) => responderHook(getState, client?.dispatch));
     return <>{children}</>;
   };
 }
@@ -0,0 +1,198 @@
+/**
+ * API Hooks - Retry
+ * ----------------
+ * Re-sends failed requests, waiting a little longer before each attempt.
+ *
+ * This file contains everything relating to the retry functionality, includes:
+ * - Retry settings
+ * - Backoff delay calculation
+ * - The retry runner, used by queries and mutations
+ */
+export namespace ApiHooksRetry {
+  /** TYPES */
+
+  /**
+   * The strategy used to calculate the delay before the next attempt
+   * - 'exponential' - the base delay is doubled after every attempt (1s, 2s, 4s, 8s...)
+   * - 'linear' - the base delay is multiplied by the attempt number (1s, 2s, 3s, 4s...)
+   * - 'fixed' - the base delay is used for every attempt
+   * - A function, receives the number of the attempt that failed (starting from 1) and the error, and returns a delay in milliseconds
+   */
+  export type Backoff = 'exponential' | 'linear' | 'fixed' | ((attempt: number, error: any) => number);
+
+  /**
+   * Root type for the retry settings
+   */
+  export interface Settings {
+    /**
+     * The maximum number of attempts, including the first. A value of 1 means failed requests will never be retried.
+     */
+    attempts: number;
+    /**
+     * The strategy used to calculate the delay before each retry
+     */
+    backoff: Backoff;
+    /**
+     * The delay (in milliseconds) that the backoff strategy is based on
+     */
+    baseDelay: number;
+    /**
+     * The maximum delay (in milliseconds) before a retry, regardless of the backoff strategy
+     */
+    maxDelay: number;
+    /**
+     * If true, each delay will be randomised to between half and all of the calculated delay, so that clients which failed at the same time don't all retry at the same time.
+     */
+    jitter: boolean;
+    /**
+     * (optional) A predicate to decide whether a failed attempt should be retried, receives the error and the number of the attempt that failed (starting from 1).
+     * @example (error) => !(error.status >= 400 && error.status < 500)
+     */
+    shouldRetry?: (error: any, attempt: number) => boolean;
+  }
+
+  /**
+   * The details of a failed attempt, passed to the `onFetchError` event
+   */
+  export interface AttemptDetails {
+    /** The number of the attempt that failed, starting from 1 */
+    attempt: number;
+    /** True if the request will be attempted again */
+    willRetry: boolean;
+    /** (optional) The delay before the next attempt, in milliseconds */
+    delay?: number;
+  }
+
+  /**
+   * The options passed to the retry runner
+   */
+  export interface RunOptions {
+    /**
+     * (optional) The abort signal of the request, no more attempts will be made once aborted
+     */
+    signal?: AbortSignal;
+    /**
+     * (optional) Called whenever an attempt fails and the request is about to be retried
+     */
+    onRetry?: (error: any, details: AttemptDetails) => void;
+  }
+
+  /** SETTINGS */
+
+  /**
+   * The system default retry settings
+   * - Can be overridden at application level, endpoint level, and hook execution level.
+   */
+  export const systemDefaults: Settings = {
+    /**
+     * 1 - Failed requests won't be retried unless configured.
+     */
+    attempts: 1,
+    /**
+     * 'exponential' - The delay is doubled after every attempt.
+     */
+    backoff: 'exponential',
+    /**
+     * 1000 - The first retry will be made after a second.
+     */
+    baseDelay: 1000,
+    /**
+     * 30000 - Retries will never wait longer than 30 seconds.
+     */
+    maxDelay: 30000,
+    /**
+     * true - Delays are randomised to spread retries out.
+     */
+    jitter: true,
+  };
+
+  /** UTILITIES */
+
+  /**
+   * Calculates the delay before the next attempt
+   * @param settings The retry settings
+   * @param attempt The number of the attempt that failed, starting from 1
+   * @param error The error thrown by the failed attempt
+   * @returns The delay in milliseconds
+   */
+  export function getDelay(settings: Partial<Settings>, attempt: number, error?: any): number {
+    const { backoff, baseDelay, maxDelay, jitter } = { ...systemDefaults, ...settings };
+    let delay: number;
+    switch (backoff) {
+      case 'fixed':
+        delay = baseDelay;
+        break;
+      case 'linear':
+        delay = baseDelay * attempt;
+        break;
+      case 'exponential':
+        delay = baseDelay * 2 ** (attempt - 1);
+        break;
+      default:
+        delay = backoff(attempt, error);
+    }
+    delay = Math.max(0, Math.min(delay, maxDelay));
+    return jitter ? Math.round(delay / 2 + (Math.random() * delay) / 2) : delay;
+  }
+
+  /**
+   * Checks whether a failed attempt should be retried
+   * @param settings The retry settings
+   * @param attempt The number of the attempt that failed, starting from 1
+   * @param error The error thrown by the failed attempt
+   * @returns A boolean - true if the request should be attempted again
+   */
+  export function shouldRetry(settings: Partial<Settings>, attempt: number, error: any): boolean {
+    const { attempts, shouldRetry: predicate } = { ...systemDefaults, ...settings };
+    return attempt < attempts && (predicate?.(error, attempt) ?? true);
+  }
+
+  /**
+   * Waits for a delay, rejecting early if the signal is aborted
+   * @param delay The delay in milliseconds
+   * @param signal (optional) The abort signal of the request
+   */
+  function wait(delay: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const onAbort = () => {
+        clearTimeout(timeout);
+        reject(new Error('API Hooks - request aborted'));
+      };
+      timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Runs a request, retrying it according to the retry settings until it succeeds, or the final attempt fails
+   * @param settings (optional) The retry settings, the system defaults are used if not passed
+   * @param request A function returning the request promise, receives the number of the attempt, starting from 1
+   * @param options (optional) The abort signal and retry callback
+   * @returns A promise of the response, will reject with the error from the final attempt
+   */
+  export async function run<TResponse>(
+    settings: Partial<Settings> | undefined,
+    request: (attempt: number) => Promise<TResponse>,
+    options: RunOptions = {}
+  ): Promise<TResponse> {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        // each attempt must be awaited before the next can be made
+        // eslint-disable-next-line no-await-in-loop
+        return await request(attempt);
+      } catch (error) {
+        if (options.signal?.aborted || !shouldRetry(settings ?? {}, attempt, error)) {
+          throw error;
+        }
+        const delay = getDelay(settings ?? {}, attempt, error);
+        options.onRetry?.(error, { attempt, willRetry: true, delay });
+        // eslint-disable-next-line no-await-in-loop
+        await wait(delay, options.signal);
+      }
+    }
+  }
+}
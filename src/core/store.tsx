@@ -1,8 +1,12 @@
 import * as React from 'react';
 import { ApiHooks } from './apiHooks';
 import { ApiHooksCaching } from './caching';
+import { ApiHooksClient } from './client';
 import { EndpointIDs } from './endpointIDs';
-import { ApiHooksEvents } from './events';
+import { ApiHooksEntities } from './entities';
+import { ApiHooksGlobal } from './global';
+import { ApiHooksSync } from './sync';
+import { Objects } from '../utils/objects';
 /**
  * API Hooks - Store
  * ----------------
@@ -11,7 +15,7 @@ import { ApiHooksEvents } from './events';
  * This file contains everything relating to the store, includes:
  * - React context
  * - React reducer
- * - Updater component
+ * - Provider component and state slice subscriptions
  * - Library of actions
  */
 export namespace ApiHooksStore {
@@ -59,6 +63,14 @@ export namespace ApiHooksStore {
      *  The UNIX timestamp of the last request
      */
     timestamp: number;
+    /**
+     *  (optional) The UNIX timestamp of the last failed request
+     */
+    errorTimestamp?: number;
+    /**
+     *  (optional) True if the stored data is default data or initial data, rather than data from a request
+     */
+    isPlaceholder?: boolean;
     /**
      * A bool that triggers a refetch, this is set by the refetch queries logic.
      */
@@ -67,6 +79,10 @@ export namespace ApiHooksStore {
      * The current caching depth of the endpoint
      */
     maxCachingDepth: number;
+    /**
+     * (optional) The tags provided by the query, used to mark the state slice for a refetch when a mutation invalidates one of them
+     */
+    tags?: string[];
   }
 
   /** UTILITIES */
@@ -107,6 +123,30 @@ export namespace ApiHooksStore {
     }
   }
 
+  /**
+   * Derives the status of a live response from the state slice status
+   * @param status The current state slice status
+   * @param data The data to be returned in the live response
+   * @param error The error to be returned in the live response
+   */
+  export function liveStatusFromStateSliceStatus(status: StateSlice<any>['status'], data: unknown, error: unknown): ApiHooks.LiveStatus {
+    switch (status) {
+      case 'loaded':
+        return 'success';
+      case 'error':
+        return 'error';
+      case 'loading-auto':
+      case 'loading-manual':
+      case 'loading-refetch':
+        return data !== undefined ? 'success' : 'pending';
+      default:
+        if (error !== undefined) {
+          return 'error';
+        }
+        return data !== undefined ? 'success' : 'idle';
+    }
+  }
+
   /** ACTIONS */
 
   export namespace Actions {
@@ -176,9 +216,31 @@ export namespace ApiHooksStore {
        * (optional) The param override config for the refetch query
        */
       refetchConfig?: RefetchConfig;
+      /**
+       * (optional) If passed, only state slices providing at least one of these tags will be marked as needing a refetch
+       */
+      tags?: string[];
     }
 
-    export type GenericAction = Action | ResetAction | RefetchAction;
+    /**
+     * Root type for the entities action, used to add entities from a response that isn't cached (i.e. a mutation) to the entity tables
+     */
+    export interface EntitiesAction {
+      /**
+       * A constant 'true' - used by the reducer to detect an entities action
+       */
+      entities: true;
+      /**
+       * Key of the endpoint that returned the data, the endpoint's normaliser is used to find the entities
+       */
+      endpointKey: string;
+      /**
+       * The data returned from the request
+       */
+      data: any;
+    }
+
+    export type GenericAction = Action | ResetAction | RefetchAction | EntitiesAction;
 
     /** ACTION FACTORIES */
 
@@ -200,6 +262,15 @@ export namespace ApiHooksStore {
       return !!(action as RefetchAction).refetch;
     }
 
+    /**
+     * Detects an entities action vs a state update, reset or refetch action
+     * @param action The action to check
+     * @returns A boolean - true if entities action, false if not
+     */
+    export function isEntitiesAction(action: React.ReducerAction<React.Reducer<State, GenericAction>>): action is EntitiesAction {
+      return !!(action as EntitiesAction).entities;
+    }
+
     /**
      * Factory function for creating a 'loading' state update action
      * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
@@ -235,6 +306,8 @@ export namespace ApiHooksStore {
      * @param data The data returned from the request
      * @param maxCachingDepth The maximum number of data sets to store for an endpoint - comes from a query config setting
      * @param isSilent Setting this to "true" means that state updates will happen without a re-render
+     * @param tags (optional) The tags provided by the query, any tags already stored against the state slice will be kept if not passed
+     * @param isPlaceholder (optional) Setting this to "true" marks the data as default data or initial data, rather than data from a request
      * @returns An action object to be dispatched
      */
     export function loaded<TData>(
@@ -244,9 +317,13 @@ export namespace ApiHooksStore {
       data: TData,
       maxCachingDepth: number,
       timeStamp?: number,
-      isSilent = false
+      isSilent?: boolean,
+      tags?: string[],
+      isPlaceholder?: boolean
     ): React.ReducerAction<React.Reducer<State, GenericAction>> {
       return {
+        ...(tags ? { tags } : {}),
+        isPlaceholder: isPlaceholder || undefined,
         status: 'loaded',
         timestamp: timeStamp ?? Date.now(),
         endpointKey,
@@ -256,7 +333,7 @@ export namespace ApiHooksStore {
         maxCachingDepth,
         error: undefined,
         shouldRefetchData: undefined,
-        isSilent,
+        isSilent: !!isSilent,
       };
     }
 
@@ -304,7 +381,36 @@ export namespace ApiHooksStore {
       maxCachingDepth: number,
       isSilent = false
     ): React.ReducerAction<React.Reducer<State, GenericAction>> {
-      return { status: 'error', endpointKey, cacheKeyValue, paramHash, error: requestError, maxCachingDepth, isSilent };
+      return { status: 'error', endpointKey, cacheKeyValue, paramHash, error: requestError, errorTimestamp: Date.now(), maxCachingDepth, isSilent };
+    }
+
+    /**
+     * Factory function for creating a 'restored' state update action, puts a previously captured state slice back exactly as it was.
+     * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+     * @param cacheKeyValue A key to cache the data by - each unique key will represent a different state slice in the dictionary.
+     * @param stateSlice The captured state slice to restore
+     * @param isSilent Setting this to "true" means that state updates will happen without a re-render
+     * @returns An action object to be dispatched
+     */
+    export function restored<TData>(
+      endpointKey: string,
+      cacheKeyValue: string,
+      stateSlice: StateSlice<TData>,
+      isSilent = false
+    ): React.ReducerAction<React.Reducer<State, GenericAction>> {
+      return {
+        status: stateSlice.status,
+        timestamp: stateSlice.timestamp,
+        endpointKey,
+        cacheKeyValue,
+        paramHash: stateSlice.paramHash,
+        data: stateSlice.data,
+        maxCachingDepth: stateSlice.maxCachingDepth,
+        error: stateSlice.error,
+        errorTimestamp: stateSlice.errorTimestamp,
+        shouldRefetchData: stateSlice.shouldRefetchData,
+        isSilent,
+      };
     }
 
     /**
@@ -331,14 +437,41 @@ export namespace ApiHooksStore {
     ): React.ReducerAction<React.Reducer<State, Actions.Action | Actions.RefetchAction>> {
       return { refetch: true, endpointKey, cacheKeyValue, refetchConfig };
     }
+
+    /**
+     * Factory function for creating a 'refetch' action which targets state slices by tag, rather than by endpoint
+     * @param tags The tags to invalidate, every state slice providing at least one of them will be marked as needing a refetch
+     * @returns An action object to be dispatched
+     */
+    export function invalidateTags(tags: string[]): React.ReducerAction<React.Reducer<State, GenericAction>> {
+      return { refetch: true, tags };
+    }
+
+    /**
+     * Factory function for creating an 'entities' action
+     * @param endpointKey Key of the endpoint that returned the data
+     * @param data The data returned from the request
+     * @returns An action object to be dispatched
+     */
+    export function entities(endpointKey: string, data: any): React.ReducerAction<React.Reducer<State, GenericAction>> {
+      return { entities: true, endpointKey, data };
+    }
   }
 
   /**  STATE FLOW - context/reducer/updater */
 
+  /**
+   * API Hooks - React client context
+   * - Contains the query client and test keys only, the value doesn't change when the state changes
+   * - The state itself is held by the query client, hooks subscribe to the individual state slices they use (see `useStateSlice`) so that they don't re-render on every state change
+   */
+  export const ClientContext = React.createContext<[ApiHooksClient.Client | undefined, TestKeyState | undefined]>([undefined, undefined]);
+
   /**
    * API Hooks - React context
-   * - Contains the state object and dispatch method
-   * - All Api hooks listen for changes from this
+   * - Contains the state object and dispatch method of the query client
+   * - Every consumer re-renders whenever any state changes
+   * @deprecated The state is owned by the query client, use `ClientContext` (or the query client directly) instead. Will be removed in a future version.
    */
   export const Context = React.createContext<
     [State, React.Dispatch<React.ReducerAction<React.Reducer<State, Actions.GenericAction>>> | undefined, TestKeyState | undefined]
@@ -350,21 +483,20 @@ export namespace ApiHooksStore {
    * - Listens to actions dispatched from the hooks and builds the single state object
    * @param state The current state object
    * @param action The incoming action
+   * @param usageLog (optional) The mount log of the query client holding the state, so that mounted state slices are kept when cleaning the endpoint dictionary
    */
-  export const reducer: React.Reducer<State, Actions.GenericAction | Actions.RefetchAction> = (state, action) => {
+  export const reducer = (state: State, action: Actions.GenericAction, usageLog?: Pick<ApiHooksCaching.UsageLog, 'isMounted'>): State => {
     // check for reset action and reset the endpoint data
     if (Actions.isResetAction(action)) {
       const { endpointKey, cacheKeyValue } = action;
       if (endpointKey) {
-        return {
-          ...state,
-          [endpointKey]: cacheKeyValue
-            ? {
-                ...(state[endpointKey] ?? {}),
-                [cacheKeyValue]: undefined,
-              }
-            : undefined,
-        } as State;
+        if (cacheKeyValue) {
+          // remove the key entirely, so that the state slice isn't counted towards the max caching depth
+          const endpointState = { ...(state[endpointKey] ?? {}) };
+          delete endpointState[cacheKeyValue];
+          return { ...state, [endpointKey]: endpointState };
+        }
+        return { ...state, [endpointKey]: undefined } as State;
       }
       return {};
     }
@@ -374,18 +506,27 @@ export namespace ApiHooksStore {
       let stateIsModified = false;
       const newState = { ...state };
       Object.keys(newState ?? {}).forEach((endpointKeyIndex) => {
-        if (newState[endpointKeyIndex] && (!endpointKey || endpointKey === endpointKeyIndex)) {
-          Object.keys(newState[endpointKeyIndex]).forEach((cacheKeyValueIndex) => {
-            if (newState[endpointKeyIndex][cacheKeyValueIndex] && (!cacheKeyValue || cacheKeyValue === cacheKeyValueIndex)) {
-              newState[endpointKeyIndex][cacheKeyValueIndex] = {
-                ...newState[endpointKeyIndex][cacheKeyValueIndex],
+        // the entity tables aren't queries, so they're never re-fetched
+        if (newState[endpointKeyIndex] && endpointKeyIndex !== ApiHooksEntities.stateKey && (!endpointKey || endpointKey === endpointKeyIndex)) {
+          // copy the endpoint dictionary before updating it, the previous state must not be mutated or subscribers won't see the change
+          const endpointState = { ...newState[endpointKeyIndex] };
+          let endpointIsModified = false;
+          Object.keys(endpointState).forEach((cacheKeyValueIndex) => {
+            if (
+              endpointState[cacheKeyValueIndex] &&
+              (!cacheKeyValue || cacheKeyValue === cacheKeyValueIndex) &&
+              (!action.tags || !!endpointState[cacheKeyValueIndex].tags?.some((tag) => action.tags?.includes(tag)))
+            ) {
+              endpointState[cacheKeyValueIndex] = {
+                ...endpointState[cacheKeyValueIndex],
                 shouldRefetchData: action.refetchConfig ?? {},
               };
-              stateIsModified = true;
+              endpointIsModified = true;
             }
           });
-          if (stateIsModified) {
-            newState[endpointKeyIndex] = { ...newState[endpointKeyIndex] };
+          if (endpointIsModified) {
+            newState[endpointKeyIndex] = endpointState;
+            stateIsModified = true;
           }
         }
       });
@@ -394,34 +535,148 @@ export namespace ApiHooksStore {
       }
       return state;
     }
+    // check for entities action and merge any entities found in the data into the entity tables
+    if (Actions.isEntitiesAction(action)) {
+      const normaliser = ApiHooksEntities.getNormaliser(action.endpointKey);
+      if (!normaliser || action.data === undefined) {
+        return state;
+      }
+      return ApiHooksEntities.mergeEntities(state, ApiHooksEntities.normalise(action.data, normaliser).entities);
+    }
     // rebuild the state object by applying changes from the action to the current state
     const { endpointKey, cacheKeyValue, isSilent, ...stateSlice } = action;
+    // if the endpoint has a normaliser, move the entities into the shared entity tables and store references to them in the state slice
+    const normaliser = ApiHooksEntities.getNormaliser(endpointKey);
+    let entityState = state;
+    if (normaliser && stateSlice.data !== undefined) {
+      const { result, entities } = ApiHooksEntities.normalise(stateSlice.data, normaliser);
+      entityState = ApiHooksEntities.mergeEntities(state, entities, stateSlice.timestamp);
+      stateSlice.data = Objects.replaceEqualDeep(state[endpointKey]?.[cacheKeyValue]?.data, result);
+    }
     if (isSilent) {
       /* eslint-disable no-param-reassign */
+      if (entityState !== state) {
+        state[ApiHooksEntities.stateKey] = entityState[ApiHooksEntities.stateKey];
+      }
       state[endpointKey] = state[endpointKey] ?? {};
       state[endpointKey][cacheKeyValue] = state[endpointKey][cacheKeyValue] ?? { paramHash: stateSlice.paramHash };
       Object.keys(stateSlice).forEach((stateSliceKey) => {
         state[endpointKey][cacheKeyValue][stateSliceKey] = stateSlice[stateSliceKey];
       });
-      state[endpointKey] = ApiHooksCaching.cleanEndpointDictionary(endpointKey, state[endpointKey], stateSlice.maxCachingDepth);
+      state[endpointKey] = ApiHooksCaching.cleanEndpointDictionary(endpointKey, state[endpointKey], stateSlice.maxCachingDepth, usageLog);
       /* eslint-enable no-param-reassign */
       return state;
     }
+    // the state slice is always replaced, never mutated - unchanged data keeps its reference, and the hooks subscribed to the state slice decide whether to re-render
     const newState = {
-      ...state,
+      ...entityState,
       [endpointKey]: {
-        ...(state[endpointKey] ?? {}),
+        ...(entityState[endpointKey] ?? {}),
         [cacheKeyValue]: {
-          ...(state[endpointKey]?.[cacheKeyValue] ?? {}),
+          ...(entityState[endpointKey]?.[cacheKeyValue] ?? {}),
           ...stateSlice,
         },
       },
     };
     // make sure the dictionary of state slices for this endpoint hasn't exceeded the maximum depth
-    newState[endpointKey] = ApiHooksCaching.cleanEndpointDictionary(endpointKey, newState[endpointKey], stateSlice.maxCachingDepth);
+    newState[endpointKey] = ApiHooksCaching.cleanEndpointDictionary(endpointKey, newState[endpointKey], stateSlice.maxCachingDepth, usageLog);
     return newState;
   };
 
+  /**
+   * Creates a serializable copy of a state object for server-side rendering, ready to be passed to the `initialState` prop of the provider on the client.
+   * - Only state slices with a "loaded" status are included, loading/error statuses and refetch flags are stripped.
+   * - Placeholder state slices (default data or initial data) aren't included, they're re-created by the hooks on the client.
+   * @param state The state object to dehydrate
+   * @returns A new state object containing only the loaded state slices
+   */
+  export function dehydrate(state: State): State {
+    return Object.keys(state ?? {}).reduce<State>((memo, endpointKey) => {
+      const endpointState = Object.keys(state[endpointKey] ?? {}).reduce<State[string]>((endpointMemo, cacheKeyValue) => {
+        const stateSlice = state[endpointKey][cacheKeyValue];
+        if (stateSlice?.status !== 'loaded' || stateSlice.isPlaceholder) {
+          return endpointMemo;
+        }
+        return {
+          ...endpointMemo,
+          [cacheKeyValue]: {
+            status: 'loaded',
+            data: stateSlice.data,
+            paramHash: stateSlice.paramHash,
+            timestamp: stateSlice.timestamp,
+            maxCachingDepth: stateSlice.maxCachingDepth,
+            tags: stateSlice.tags,
+          },
+        };
+      }, {});
+      if (!Object.keys(endpointState).length) {
+        return memo;
+      }
+      return { ...memo, [endpointKey]: endpointState };
+    }, {});
+  }
+
+  /**
+   * Merges a dehydrated state object into a state object.
+   * - A dehydrated state slice will replace an existing one unless the existing state slice is newer (based on the timestamp of the last request)
+   * - Dehydrated state slices keep their original timestamp, so they will not be re-fetched until they become stale
+   * @param state The state object to merge into
+   * @param dehydratedState The dehydrated state object, usually created by the `dehydrate` function on the server
+   * @returns A new state object
+   */
+  export function hydrate(state: State, dehydratedState?: State): State {
+    return Object.keys(dehydratedState ?? {}).reduce<State>(
+      (memo, endpointKey) => {
+        const endpointState = { ...(memo[endpointKey] ?? {}) };
+        Object.keys(dehydratedState?.[endpointKey] ?? {}).forEach((cacheKeyValue) => {
+          const stateSlice = dehydratedState?.[endpointKey][cacheKeyValue];
+          const existingStateSlice = endpointState[cacheKeyValue];
+          if (stateSlice && (!existingStateSlice || existingStateSlice.timestamp <= stateSlice.timestamp)) {
+            endpointState[cacheKeyValue] = stateSlice;
+          }
+        });
+        return { ...memo, [endpointKey]: endpointState };
+      },
+      { ...(state ?? {}) }
+    );
+  }
+
+  /**
+   * A fallback for `React.useSyncExternalStore` when running on React 17
+   * - Reads the snapshot during render, and forces a re-render if the snapshot has changed once subscribed, or when the store changes
+   * @param subscribe A function which subscribes to the store and returns an "unsubscribe" function
+   * @param getSnapshot A function which returns the current snapshot of the store, must return the same value if the store hasn't changed
+   * @returns The current snapshot
+   */
+  function useSyncExternalStoreFallback<TSnapshot>(subscribe: (onStoreChange: () => void) => () => void, getSnapshot: () => TSnapshot): TSnapshot {
+    const [, forceRender] = React.useReducer((renderCount: number) => renderCount + 1, 0);
+    const snapshot = getSnapshot();
+
+    // store the last rendered snapshot and the snapshot getter in refs so that the subscription doesn't need to be renewed
+    const renderedSnapshot = React.useRef(snapshot);
+    renderedSnapshot.current = snapshot;
+    const getSnapshotRef = React.useRef(getSnapshot);
+    getSnapshotRef.current = getSnapshot;
+
+    React.useLayoutEffect(() => {
+      const onStoreChange = () => {
+        if (!Object.is(getSnapshotRef.current(), renderedSnapshot.current)) {
+          forceRender();
+        }
+      };
+      // catch up with any changes made before the subscription (i.e. by layout effects further down the tree)
+      onStoreChange();
+      return subscribe(onStoreChange);
+    }, [subscribe]);
+
+    return snapshot;
+  }
+
+  /**
+   * Uses the native `useSyncExternalStore` hook if available (React 18), or the fallback if not (React 17)
+   */
+  const useSyncExternalStore = React.useSyncExternalStore ?? useSyncExternalStoreFallback;
+
   /**
    * Props for the provider component
    */
@@ -431,73 +686,241 @@ export namespace ApiHooksStore {
      * @example { endpointIDs.myController.myEndpoint(): "UserFormTest" }
      */
     testKeys?: TestKeyState;
+    /**
+     * An optional dehydrated state object to merge into the initial state, ideal for passing data fetched during server-side rendering. Will be merged over any state returned from the "onBeforeInitialState" event hooks.
+     * - Should be created using the `dehydrate` function.
+     */
+    initialState?: State;
+    /**
+     * An optional query client created using `ApiHooksClient.create`, pass this to share the cache with code outside of React components. A client will be created if one isn't passed.
+     */
+    client?: ApiHooksClient.Client;
+    /**
+     * An optional synchroniser created using `ApiHooksSync.create`, pass this to keep the cache in sync with other tabs.
+     */
+    sync?: ReturnType<typeof ApiHooksSync.create>;
   }
 
   /**
    * Api Hooks - React Provider
    * - Must be imported and wrapped around the entire app
-   * - Enables re-renders downstream when state changes
+   * - Provides the query client to the hooks, which subscribe to the state slices they use
    */
-  export const Provider: React.FC<React.PropsWithChildren<ProviderProps>> = ({ children, testKeys }) => {
+  export const Provider: React.FC<React.PropsWithChildren<ProviderProps>> = ({
+    children,
+    testKeys,
+    initialState: dehydratedState,
+    client: clientFromProps,
+    sync,
+  }) => {
     /**
-     * Stores the action of each dispatch so that it can be passed into event hooks
+     * The query client that owns the state, created here if one hasn't been passed as a prop
+     * - Creating the client executes the "onBeforeInitialState" event hooks, any dehydrated state passed as a prop is then merged in
      */
-    const lastActionRef = React.useRef<Actions.GenericAction>();
+    const client = React.useMemo(() => clientFromProps ?? ApiHooksClient.create({ testKeys, initialState: dehydratedState }), [clientFromProps]);
 
     /**
-     * Execute the "onBeforeInitialState" event hooks and retrieve some potential state to use
+     * Merges any dehydrated state passed as a prop into a client passed as a prop, hydrating notifies the client's listeners so it can't happen during render
+     * - To have the dehydrated state available on the first render, pass it to `ApiHooksClient.create` instead
      */
-    const initialState = React.useMemo(() => {
-      return ApiHooksEvents.onBeforeInitialState.executeEventHooks(testKeys) ?? {};
-    }, []);
+    React.useLayoutEffect(() => {
+      clientFromProps?.hydrate(dehydratedState);
+    }, [clientFromProps]);
 
     /**
-     * The root reducer
+     * The client context value, memoized so that state changes never re-render the context consumers
      */
-    const [state, dispatch] = React.useReducer(reducer, initialState);
-    const [cacheOnlyState, dispatchCacheOnlyState] = React.useReducer(reducer, initialState);
+    const clientContextValue = React.useMemo<[ApiHooksClient.Client, TestKeyState | undefined]>(
+      () => [client, testKeys ?? client.testKeys],
+      [client, testKeys]
+    );
 
     /**
-     * Execute the "onStateUpdated" event hooks and pass the updated state
+     * Connects the query client to the deprecated `ApiHooksGlobal` live request, mount, read and pin management functions, disconnecting on unmount
      */
-    React.useEffect(() => {
-      if (ApiHooksEvents.onStateUpdated.hasEventHooks()) {
-        ApiHooksEvents.onStateUpdated.executeEventHooks(state, lastActionRef.current, testKeys);
-      }
-    }, [state]);
+    React.useLayoutEffect(() => ApiHooksGlobal.connectProviderClient(client), [client]);
 
     /**
-     * Execute the "onCacheUpdated" event hooks and pass the updated state
+     * Connects the query client to the synchroniser (if any), disconnecting on unmount
      */
-    React.useEffect(() => {
-      if (ApiHooksEvents.onCacheUpdated.hasEventHooks()) {
-        ApiHooksEvents.onCacheUpdated.executeEventHooks(cacheOnlyState, testKeys);
-      }
-    }, [cacheOnlyState]);
+    React.useEffect(() => sync?.connect(client), [sync, client]);
+
+    /**
+     * The state of the query client, for the deprecated `Context` only - the hooks subscribe to the individual state slices they use
+     */
+    const state = useSyncExternalStore(client.subscribe, client.getState);
 
     /**
-     * Override the root dispatch function.
-     * - This is necessary to store the action in a ref for use elsewhere.
+     * The deprecated context value, memoized so that it only changes when the state changes
      */
-    const dispatchOverride = React.useCallback<typeof dispatch>(
-      (action) => {
-        lastActionRef.current = action;
-        dispatch(action);
-        const { isResetAction, isRefetchAction } = ApiHooksStore.Actions;
-        if (action && !isRefetchAction(action) && (isResetAction(action) || action.status === 'loaded')) {
-          dispatchCacheOnlyState(action);
+    const contextValue = React.useMemo<[State, ApiHooksClient.Client['dispatch'], TestKeyState | undefined]>(
+      () => [state, client.dispatch, clientContextValue[1]],
+      [state, client, clientContextValue]
+    );
+
+    return (
+      <ClientContext.Provider value={clientContextValue}>
+        <Context.Provider value={contextValue}>{children}</Context.Provider>
+      </ClientContext.Provider>
+    );
+  };
+
+  /**
+   * Hook used to read a single state slice from the query client.
+   * - Subscribes to the individual state slice, so the component is only re-rendered when that state slice changes
+   * - If the endpoint has a normaliser, the data is denormalised and the component is also re-rendered when the entities it contains change
+   * @param client The query client holding the state
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValue The cache key of the state slice
+   * @param hasChanged (optional) A function to decide whether a change to the state slice should re-render the component, defaults to a reference check
+   * @returns The current state slice (if any)
+   */
+  export function useStateSlice<TData = any>(
+    client: ApiHooksClient.Client | undefined,
+    endpointKey: string,
+    cacheKeyValue: string,
+    hasChanged: (previous?: StateSlice<TData>, next?: StateSlice<TData>) => boolean = (previous, next) => previous !== next
+  ): StateSlice<TData> | undefined {
+    // store the comparer in a ref so that inline functions don't need to be memoized by the consumer
+    const hasChangedRef = React.useRef(hasChanged);
+    hasChangedRef.current = hasChanged;
+
+    // the last snapshot returned, along with the key, stored state slice and entity tables it was read from
+    const snapshot = React.useRef<{
+      endpointKey: string;
+      cacheKeyValue: string;
+      source?: StateSlice<TData>;
+      entityTables: (StateSlice<any> | undefined)[];
+      stateSlice?: StateSlice<TData>;
+    }>();
+
+    const subscribe = React.useCallback(
+      (onStoreChange: () => void) => {
+        if (!client) {
+          return () => undefined;
         }
+        const unsubscribers = [
+          client.subscribeToStateSlice(endpointKey, cacheKeyValue, onStoreChange),
+          ...ApiHooksEntities.getEntityTypes(endpointKey).map((entityType) =>
+            client.subscribeToStateSlice(ApiHooksEntities.stateKey, entityType, onStoreChange)
+          ),
+        ];
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
       },
-      [dispatch]
+      [client, endpointKey, cacheKeyValue]
     );
 
-    return <Context.Provider value={[state, dispatchOverride, testKeys]}>{children}</Context.Provider>;
-  };
+    const getSnapshot = React.useCallback(() => {
+      const state = client?.getState() ?? {};
+      const source: StateSlice<TData> | undefined = state[endpointKey]?.[cacheKeyValue];
+      const entityTables = ApiHooksEntities.getEntityTypes(endpointKey).map((entityType) => state[ApiHooksEntities.stateKey]?.[entityType]);
+      let { current } = snapshot;
+      const keyHasChanged = !current || current.endpointKey !== endpointKey || current.cacheKeyValue !== cacheKeyValue;
+
+      // nothing has changed since the last snapshot
+      if (!keyHasChanged && current?.source === source && entityTables.every((table, index) => table === current?.entityTables[index])) {
+        return current?.stateSlice;
+      }
+
+      // denormalise the data if required, sharing structure with the last snapshot so that unchanged entities keep their references
+      let stateSlice: StateSlice<TData> | undefined = source;
+      if (entityTables.length && source?.data !== undefined) {
+        const data = Objects.replaceEqualDeep(current?.stateSlice?.data, ApiHooksEntities.denormalise(state, endpointKey, source.data));
+        stateSlice =
+          current && !keyHasChanged && current.source === source && current.stateSlice?.data === data ? current.stateSlice : { ...source, data };
+      }
+
+      // only replace the snapshot if the key has changed, or the state slice has changed in a way that the component cares about
+      if (!current || keyHasChanged || (current.stateSlice !== stateSlice && hasChangedRef.current(current.stateSlice, stateSlice))) {
+        current = { endpointKey, cacheKeyValue, source, entityTables, stateSlice };
+      } else {
+        current = { ...current, source, entityTables };
+      }
+      snapshot.current = current;
+      return current.stateSlice;
+    }, [client, endpointKey, cacheKeyValue]);
+
+    return useSyncExternalStore(subscribe, getSnapshot);
+  }
+
+  /**
+   * Hook used to read several state slices of the same endpoint from the query client, used by the `useQueries` hook.
+   * - Subscribes to each individual state slice, so the component is only re-rendered when one of them changes
+   * - If the endpoint has a normaliser, the data is denormalised and the component is also re-rendered when the entities it contains change
+   * @param client The query client holding the state
+   * @param endpointKey A key specific to the endpoint (in format `controller.endpoint`)
+   * @param cacheKeyValues The cache keys of the state slices
+   * @returns The current state slices (if any), in the same order as the cache keys
+   */
+  export function useStateSlices<TData = any>(
+    client: ApiHooksClient.Client | undefined,
+    endpointKey: string,
+    cacheKeyValues: string[]
+  ): (StateSlice<TData> | undefined)[] {
+    // the cache keys are compared by value, so that the consumer doesn't need to memoize the array
+    const cacheKeysHash = JSON.stringify(cacheKeyValues);
+    const cacheKeys = React.useMemo(() => cacheKeyValues, [cacheKeysHash]);
+
+    // the last snapshot returned, along with the keys, stored state slices and entity tables it was read from
+    const snapshot = React.useRef<{
+      cacheKeys: string[];
+      sources: (StateSlice<TData> | undefined)[];
+      entityTables: (StateSlice<any> | undefined)[];
+      stateSlices: (StateSlice<TData> | undefined)[];
+    }>();
+
+    const subscribe = React.useCallback(
+      (onStoreChange: () => void) => {
+        if (!client) {
+          return () => undefined;
+        }
+        const unsubscribers = [
+          ...cacheKeys.map((cacheKeyValue) => client.subscribeToStateSlice(endpointKey, cacheKeyValue, onStoreChange)),
+          ...ApiHooksEntities.getEntityTypes(endpointKey).map((entityType) =>
+            client.subscribeToStateSlice(ApiHooksEntities.stateKey, entityType, onStoreChange)
+          ),
+        ];
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+      },
+      [client, endpointKey, cacheKeys]
+    );
+
+    const getSnapshot = React.useCallback(() => {
+      const state = client?.getState() ?? {};
+      const sources: (StateSlice<TData> | undefined)[] = cacheKeys.map((cacheKeyValue) => state[endpointKey]?.[cacheKeyValue]);
+      const entityTables = ApiHooksEntities.getEntityTypes(endpointKey).map((entityType) => state[ApiHooksEntities.stateKey]?.[entityType]);
+      const current = snapshot.current?.cacheKeys === cacheKeys ? snapshot.current : undefined;
+
+      // nothing has changed since the last snapshot
+      if (
+        current &&
+        sources.every((source, index) => source === current.sources[index]) &&
+        entityTables.every((table, index) => table === current.entityTables[index])
+      ) {
+        return current.stateSlices;
+      }
+
+      // denormalise the data if required, sharing structure with the last snapshot so that unchanged entities keep their references
+      const stateSlices = sources.map((source, index) => {
+        if (!entityTables.length || source?.data === undefined) {
+          return source;
+        }
+        const previous = current?.stateSlices[index];
+        const data = Objects.replaceEqualDeep(previous?.data, ApiHooksEntities.denormalise(state, endpointKey, source.data));
+        return previous && current?.sources[index] === source && previous.data === data ? previous : { ...source, data };
+      });
+
+      snapshot.current = { cacheKeys, sources, entityTables, stateSlices };
+      return stateSlices;
+    }, [client, endpointKey, cacheKeys]);
+
+    return useSyncExternalStore(subscribe, getSnapshot);
+  }
 
   /**
    * Function to reset cached state
    * - **WARNING:** If no endpoint ID is passed **all state will be reset!**
-   * @param endpointId an optional endpoint ID object for resetting a specific endpoint or endpoint/cacheKey combination
+   * @param endpointId an optional endpoint ID object for resetting a specific endpoint or endpoint/cacheKey combination, can include a predicate to reset the matching state slices
    */
   type ResetFunction = (endpointId?: EndpointIDs.Response<never>) => void;
 
@@ -506,7 +929,8 @@ export namespace ApiHooksStore {
    * @returns a function which can be used to reset cached state.
    */
   export const useReset = (): ResetFunction => {
-    const [, dispatch] = React.useContext(Context);
+    const [client] = React.useContext(ClientContext);
+    const dispatch = client?.dispatch;
 
     /**
      * Function to reset cached state
@@ -515,11 +939,55 @@ export namespace ApiHooksStore {
      */
     const resetState = React.useCallback(
       (endpointId?: EndpointIDs.Response<never>) => {
-        dispatch?.(Actions.reset(endpointId?.endpointHash, endpointId?.cacheKeyValue?.toString()));
+        if (!endpointId?.predicate) {
+          dispatch?.(Actions.reset(endpointId?.endpointHash, endpointId?.cacheKeyValue?.toString()));
+          return;
+        }
+        // reset each state slice matching the predicate
+        for (const cacheKeyValue of ApiHooksCaching.cacheKeyValuesFromEndpointId(client?.getState() ?? {}, endpointId, endpointId.cacheKeyValue) ??
+          []) {
+          dispatch?.(Actions.reset(endpointId.endpointHash, cacheKeyValue));
+        }
       },
-      [dispatch]
+      [dispatch, client]
     );
 
     return resetState;
   };
+
+  /**
+   * Function to reset errored state
+   * @param endpointId an optional endpoint ID object, only the errored state slices of the endpoint (or endpoint/cacheKey combination) will be reset if passed
+   */
+  type ResetErrorsFunction = (endpointId?: EndpointIDs.Response<never>) => void;
+
+  /**
+   * Hook used to reset errored state, so that failed queries can be retried. Ideal for the `onReset` prop of an error boundary wrapping queries in `suspense` mode.
+   * - Only state slices with an error and no data are reset, the queries will suspend and re-fetch when the boundary renders them again.
+   * @returns a function which can be used to reset errored state.
+   */
+  export const useResetErrors = (): ResetErrorsFunction => {
+    const [client] = React.useContext(ClientContext);
+
+    const resetErrors = React.useCallback(
+      (endpointId?: EndpointIDs.Response<never>) => {
+        const state = client?.getState() ?? {};
+        Object.keys(state)
+          .filter((endpointKey) => !endpointId || endpointKey === endpointId.endpointHash)
+          .forEach((endpointKey) => {
+            Object.keys(state[endpointKey] ?? {})
+              .filter((cacheKeyValue) => endpointId?.cacheKeyValue === undefined || cacheKeyValue === endpointId.cacheKeyValue.toString())
+              .forEach((cacheKeyValue) => {
+                const stateSlice = state[endpointKey]?.[cacheKeyValue];
+                if (stateSlice?.error && stateSlice.data === undefined) {
+                  client?.dispatch(Actions.reset(endpointKey, cacheKeyValue));
+                }
+              });
+          });
+      },
+      [client]
+    );
+
+    return resetErrors;
+  };
 }
@@ -0,0 +1,203 @@
+import { ApiHooksClient } from './client';
+import { EndpointIDs } from './endpointIDs';
+import { ApiHooksEntities } from './entities';
+import { ApiHooksStore } from './store';
+
+/**
+ * API Hooks - Sync
+ * ----------------
+ * Synchronises the API Hooks cache between browser tabs (or any other clients) sharing a channel.
+ *
+ * This file contains everything relating to cache synchronisation, includes:
+ * - Channel types, and the default `BroadcastChannel` based channel
+ * - Sync settings
+ * - The synchroniser, which publishes "loaded" and "reset" actions from a query client and applies incoming ones
+ */
+export namespace ApiHooksSync {
+  /** TYPES */
+
+  /** An action that can be synchronised, only "loaded" and "reset" actions are published */
+  export type SyncAction = ApiHooksStore.Actions.Action | ApiHooksStore.Actions.ResetAction;
+
+  /**
+   * The message sent between clients through the channel
+   */
+  export interface Message {
+    /** A unique ID for the connection that published the message, used to ignore messages that are echoed back */
+    sourceId: string;
+    /** The action to apply */
+    action: SyncAction;
+  }
+
+  /**
+   * The interface for a sync channel, the default channel uses `BroadcastChannel` but a custom one can be injected (i.e. for tests, or a WebSocket)
+   */
+  export interface Channel {
+    /** Sends a message to every other client listening to the channel */
+    postMessage: (message: Message) => void;
+    /**
+     * Registers a function to be called with every message received from the channel
+     * @returns An "unsubscribe" function
+     */
+    subscribe: (onMessage: (message: Message) => void) => () => void;
+    /** (optional) Closes the channel, called when the synchroniser disconnects if the channel was created by the synchroniser */
+    close?: () => void;
+  }
+
+  /**
+   * The settings passed to the `create` function.
+   */
+  export interface Settings {
+    /**
+     * (optional) The channel to synchronise through, a `BroadcastChannel` will be created if not passed
+     */
+    channel?: Channel;
+    /**
+     * (optional) The name of the `BroadcastChannel` to create, ignored if a channel is passed
+     * @default 'api-hooks-sync'
+     */
+    channelName?: string;
+    /** (optional) The endpoints to allow or deny */
+    endpoints?: EndpointIDs.Filter;
+  }
+
+  /** CONSTANTS */
+
+  /** The default name of the `BroadcastChannel` to synchronise through. */
+  export const defaultChannelName = 'api-hooks-sync';
+
+  /** UTILITIES */
+
+  /**
+   * Root warning function, just a proxy for the console warn for now.
+   * @param messages The items to warn
+   */
+  function warn(...messages: any[]) {
+    // eslint-disable-next-line no-console
+    console.warn(...messages);
+  }
+
+  /**
+   * Creates a unique ID for a connection.
+   */
+  function createSourceId() {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  }
+
+  /**
+   * Creates a sync channel using the `BroadcastChannel` API, which reaches every tab on the same origin.
+   * @param channelName The name of the channel
+   * @returns The channel, or undefined if `BroadcastChannel` isn't supported in this environment (i.e. during server-side rendering)
+   */
+  export function createBroadcastChannel(channelName = defaultChannelName): Channel | undefined {
+    if (typeof BroadcastChannel === 'undefined') {
+      return undefined;
+    }
+    const broadcastChannel = new BroadcastChannel(channelName);
+    return {
+      postMessage: (message) => broadcastChannel.postMessage(message),
+      subscribe: (onMessage) => {
+        const listener = (event: MessageEvent<Message>) => onMessage(event.data);
+        broadcastChannel.addEventListener('message', listener);
+        return () => broadcastChannel.removeEventListener('message', listener);
+      },
+      close: () => broadcastChannel.close(),
+    };
+  }
+
+  /**
+   * Checks whether an action should be synchronised.
+   * - Only "loaded" and "reset" actions are synchronised, loading/error statuses are specific to the client that made the request
+   * - The entity tables are rebuilt from the synchronised "loaded" actions, so they're never synchronised directly
+   * - A reset of the whole cache (i.e. on log out) is always synchronised
+   * @param action The action to check
+   * @param settings The sync settings
+   */
+  function shouldSync(action: ApiHooksStore.Actions.GenericAction | undefined, settings: Settings): action is SyncAction {
+    if (!action || ApiHooksStore.Actions.isRefetchAction(action) || ApiHooksStore.Actions.isEntitiesAction(action)) {
+      return false;
+    }
+    if (ApiHooksStore.Actions.isResetAction(action)) {
+      return !action.endpointKey || EndpointIDs.isAllowed(settings.endpoints, action.endpointKey, action.cacheKeyValue ?? '');
+    }
+    return (
+      action.status === 'loaded' &&
+      action.endpointKey !== ApiHooksEntities.stateKey &&
+      EndpointIDs.isAllowed(settings.endpoints, action.endpointKey, action.cacheKeyValue)
+    );
+  }
+
+  /** SYNCHRONISER */
+
+  /** The synchroniser class created by the `create` function, connects to one or more query clients. */
+  class Synchroniser {
+    /** The sync settings */
+    private readonly settings: Settings;
+
+    constructor(settings: Settings) {
+      this.settings = settings;
+    }
+
+    /**
+     * Connects a query client to the channel, called by the `ApiHooksStore.Provider` when passed as the `sync` prop.
+     * - "loaded" and "reset" actions dispatched to the client are published to the channel
+     * - Actions received from the channel are applied to the client, unless the client already holds newer data
+     * @param client The query client to synchronise
+     * @returns A "disconnect" function
+     */
+    public connect(client: ApiHooksClient.Client): () => void {
+      const channel = this.settings.channel ?? createBroadcastChannel(this.settings.channelName);
+      if (!channel) {
+        warn('API Hooks Sync WARNING! - BroadcastChannel is not supported in this environment, pass a channel to sync through.');
+        return () => undefined;
+      }
+      const sourceId = createSourceId();
+
+      // set while an incoming action is being applied, so that it isn't published straight back to the channel
+      let isApplyingMessage = false;
+
+      const unsubscribeFromClient = client.subscribe((__, action) => {
+        if (!isApplyingMessage && shouldSync(action, this.settings)) {
+          channel.postMessage({ sourceId, action });
+        }
+      });
+
+      const unsubscribeFromChannel = channel.subscribe((message) => {
+        if (!message || message.sourceId === sourceId || !shouldSync(message.action, this.settings)) {
+          return;
+        }
+        const { action } = message;
+        if (!ApiHooksStore.Actions.isResetAction(action)) {
+          // never replace newer data with older data
+          const existingSlice = client.getState()[action.endpointKey]?.[action.cacheKeyValue];
+          if (existingSlice?.timestamp && action.timestamp && existingSlice.timestamp > action.timestamp) {
+            return;
+          }
+        }
+        isApplyingMessage = true;
+        try {
+          client.dispatch(ApiHooksStore.Actions.isResetAction(action) ? action : { ...action, isSilent: false });
+        } finally {
+          isApplyingMessage = false;
+        }
+      });
+
+      return () => {
+        unsubscribeFromClient();
+        unsubscribeFromChannel();
+        if (!this.settings.channel) {
+          channel.close?.();
+        }
+      };
+    }
+  }
+
+  /**
+   * Creates a synchroniser, should be created once and passed to the `sync` prop of the `ApiHooksStore.Provider`.
+   * @param settings (optional) The sync settings, including the channel
+   * @returns The synchroniser
+   */
+  export function create(settings: Settings = {}) {
+    return new Synchroniser(settings);
+  }
+}
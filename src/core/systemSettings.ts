@@ -1,5 +1,6 @@
 import { ApiHooks } from './apiHooks';
 import { ApiHooksCaching } from './caching';
+import { ApiHooksRetry } from './retry';
 
 /**
  * API Hooks
@@ -25,11 +26,31 @@ export namespace ApiHooksSystemSettings {
      * Queries will re-execute when the parameters change
      */
     invokeOnParamChange: true,
+    /**
+     * @default false
+     * Stale data will not be re-fetched when the window regains focus
+     */
+    refetchOnFocus: false,
+    /**
+     * @default false
+     * Stale data will not be re-fetched when the network comes back online
+     */
+    refetchOnReconnect: false,
     /**
      * @default true
      * Invocation will not occur until the parameter used as the cacheKey (if any) has a non "falsey" value
      */
     holdInvokeForCacheKeyParam: true,
+    /**
+     * @default true
+     * Queries can be invoked automatically, unless disabled by a boolean or predicate
+     */
+    enabled: true,
+    /**
+     * @default false
+     * Queries will return the fetching status rather than suspending whilst there's no data
+     */
+    suspense: false,
     /**
      * @default true
      * Manual invocations will always ignore cache and hit the server, on the assumption that a post mutation re-fetch is the most common use. This can be overridden with `forceNetwork` on a manual invoke.
@@ -44,10 +65,19 @@ export namespace ApiHooksSystemSettings {
      * By default, the system will block any request with the same endpoint/cacheKey whilst a request is already in progress. Setting this to true will override that behaviour and allow both requests to fire.
      */
     allowSimultaneousRequests: false,
+    /**
+     * @default true
+     * Refetched data will keep the references of any parts that haven't changed since the last fetch
+     */
+    structuralSharing: true,
     /**
      * Add system default caching settings from caching library.
      */
     caching: ApiHooksCaching.systemDefaults,
+    /**
+     * Add system default retry settings from retry library.
+     */
+    retry: ApiHooksRetry.systemDefaults,
   };
 
   /**
@@ -59,6 +89,10 @@ export namespace ApiHooksSystemSettings {
      * Errors from a mutation fetch will reject the promise rather than be swallowed by the hook
      */
     throwErrors: true,
+    /**
+     * Add system default retry settings from retry library.
+     */
+    retry: ApiHooksRetry.systemDefaults,
   };
 
   /**
@@ -9,3 +9,11 @@ export { ApiHooksGlobal } from './core/global';
 export { ApiHooksStore } from './core/store';
 export { ApiHooksEvents } from './core/events';
 export { ApiHooksResponders } from './core/responders';
+export { ApiHooksOptimistic } from './core/optimistic';
+export { ApiHooksPersistence } from './core/persistence';
+export { ApiHooksClient } from './core/client';
+export { ApiHooksEntities } from './core/entities';
+export { ApiHooksSync } from './core/sync';
+export { ApiHooksRetry } from './core/retry';
+export { ApiHooksFocus } from './core/focus';
+export { ApiHooksInfinite } from './core/infinite';
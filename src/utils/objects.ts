@@ -9,6 +9,19 @@ export namespace Objects {
     return item && typeof item === 'object' && !Array.isArray(item);
   }
 
+  /**
+   * Plain object check, excludes arrays and class instances such as dates.
+   * @param item
+   * @returns {boolean}
+   */
+  export function isPlainObject(item: any): item is Record<string, any> {
+    if (!isObject(item)) {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(item);
+    return prototype === Object.prototype || prototype === null;
+  }
+
   /**
    * A basic deep clone for objects
    * - WARNING: object must be OK to go through `JSON.stringify`
@@ -46,4 +59,33 @@ export namespace Objects {
 
     return newTarget;
   }
+
+  /**
+   * Returns `next` with any subtrees that are deep equal to `previous` replaced by the `previous` references.
+   * - If the two values are deep equal, `previous` itself is returned.
+   * - Only plain objects and arrays are traversed, any other values are compared by reference.
+   * @param previous The previous value
+   * @param next The new value
+   * @returns The new value, sharing structure with the previous value wherever possible
+   */
+  export function replaceEqualDeep<TValue>(previous: any, next: TValue): TValue {
+    if (previous === next) {
+      return previous;
+    }
+    const bothArrays = Array.isArray(previous) && Array.isArray(next);
+    if (!bothArrays && !(isPlainObject(previous) && isPlainObject(next))) {
+      return next;
+    }
+    const previousKeys = Object.keys(previous);
+    const nextKeys = Object.keys(next as any);
+    const copy: any = bothArrays ? [] : {};
+    let equalItems = 0;
+    nextKeys.forEach((key) => {
+      copy[key] = replaceEqualDeep(previous[key], next[key]);
+      if (copy[key] === previous[key] && Object.prototype.hasOwnProperty.call(previous, key)) {
+        equalItems += 1;
+      }
+    });
+    return previousKeys.length === nextKeys.length && equalItems === previousKeys.length ? previous : copy;
+  }
 }
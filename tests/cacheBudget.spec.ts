@@ -0,0 +1,89 @@
+import { ApiHooks } from '../src/core/apiHooks';
+import { ApiHooksCaching } from '../src/core/caching';
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+
+const loadUser = (client: ApiHooksClient.Client, id: string, data: any = { id }, timestamp = 1000) =>
+  client.dispatch(ApiHooksStore.Actions.loaded('user.getUser', `{"id":"${id}"}`, id, data, 10, timestamp));
+
+describe('Cache budget', () => {
+  it('Should evict the least recently read state slices across all endpoints, skipping mounted and pinned slices', () => {
+    const client = ApiHooksClient.create({ cacheBudget: { maxEntries: 3 } });
+
+    client.dispatch(ApiHooksStore.Actions.loaded('user.getUserList', '{}', 'all-data', [], 10, 500));
+    loadUser(client, 'mounted');
+    loadUser(client, 'pinned');
+    client.setMounted('user.getUser', 'mounted');
+    client.setPinned('user.getUser', 'pinned', true);
+    loadUser(client, 'read');
+    client.setRead('user.getUser', 'read');
+    loadUser(client, 'new');
+
+    const state = client.getState();
+    expect(Object.keys(state['user.getUserList'])).toEqual([]);
+    expect(Object.keys(state['user.getUser'])).toEqual(['mounted', 'pinned', 'read']);
+  });
+
+  it('Should keep the read and pin log of each client, clearing it when the state slice is removed', () => {
+    const client = ApiHooksClient.create({ cacheBudget: { maxEntries: 2 } });
+    const otherClient = ApiHooksClient.create({ cacheBudget: { maxEntries: 2 } });
+
+    ['pinned', 'read'].forEach((id) => {
+      loadUser(client, id);
+      loadUser(otherClient, id);
+    });
+    client.setPinned('user.getUser', 'pinned', true);
+    client.setRead('user.getUser', 'read');
+    expect(otherClient.isPinned('user.getUser', 'pinned')).toEqual(false);
+    expect(otherClient.getReadAt('user.getUser', 'read')).toBeUndefined();
+
+    // the read and pin log is cleared once the state slice has been removed
+    client.dispatch(ApiHooksStore.Actions.reset('user.getUser', 'pinned'));
+    expect(client.isPinned('user.getUser', 'pinned')).toEqual(false);
+    loadUser(client, 'new', undefined, Date.now() + 1000);
+    loadUser(client, 'newer', undefined, Date.now() + 1000);
+    expect(Object.keys(client.getState()['user.getUser'])).toEqual(['new', 'newer']);
+    expect(client.getReadAt('user.getUser', 'read')).toBeUndefined();
+
+    // the other client's pinned state slice is kept
+    otherClient.setPinned('user.getUser', 'pinned', true);
+    loadUser(otherClient, 'new', undefined, Date.now() + 1000);
+    expect(Object.keys(otherClient.getState()['user.getUser'])).toEqual(['pinned', 'new']);
+  });
+
+  it('Should evict state slices until the approximate size of the cache is within budget', () => {
+    const client = ApiHooksClient.create({ cacheBudget: { maxBytes: 100 } });
+
+    loadUser(client, 'large', 'x'.repeat(60));
+    loadUser(client, 'small', 'y'.repeat(20));
+    expect(Object.keys(client.getState()['user.getUser'])).toEqual(['large', 'small']);
+
+    loadUser(client, 'medium', 'z'.repeat(40));
+    expect(Object.keys(client.getState()['user.getUser'])).toEqual(['small', 'medium']);
+  });
+
+  it('Should apply the budget from the general config of the hooks used with a client, without affecting other clients', () => {
+    const budgetedApiHooks = ApiHooks.create(apiClient, { generalConfig: { cacheBudget: { maxEntries: 2 } } });
+    const strictApiHooks = ApiHooks.create(apiClient, { generalConfig: { cacheBudget: { maxEntries: 1 } } });
+    const client = ApiHooksClient.create({ hooks: budgetedApiHooks });
+    const unbudgetedClient = ApiHooksClient.create();
+
+    ['1', '2', '3'].forEach((id) => {
+      loadUser(client, id);
+      loadUser(unbudgetedClient, id);
+    });
+    expect(Object.keys(client.getState()['user.getUser'])).toEqual(['2', '3']);
+    expect(Object.keys(unbudgetedClient.getState()['user.getUser'])).toEqual(['1', '2', '3']);
+
+    // hooks created with a stricter budget tighten the budget of the client they're used with
+    client.registerQueryRunner('user.getUser', ApiHooks.getQueryRunners(strictApiHooks)['user.getUser']);
+    loadUser(client, '4');
+    expect(Object.keys(client.getState()['user.getUser'])).toEqual(['4']);
+  });
+
+  it('Should merge budgets by keeping the strictest limits', () => {
+    expect(ApiHooksCaching.mergeBudgets({ maxEntries: 10 }, undefined, { maxEntries: 5, maxBytes: 100 })).toEqual({ maxEntries: 5, maxBytes: 100 });
+    expect(ApiHooksCaching.mergeBudgets(undefined)).toBeUndefined();
+  });
+});
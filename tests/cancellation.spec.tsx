@@ -0,0 +1,105 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooks } from '../src/core/apiHooks';
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+
+const signalsFor = (spy: jest.SpyInstance) => spy.mock.calls.map((call) => call[1]?.signal as AbortSignal | undefined);
+
+// hooks which pass the abort signal to the endpoints in a request options object
+const abortableApiHooks = ApiHooks.create(apiClient, { generalConfig: { passAbortSignal: true } });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Cancellation', () => {
+  it('Should abort the previous request when the params change, and the last request when the component un-mounts', async () => {
+    const searchUser = jest.spyOn(apiClient.user, 'searchUser');
+    const client = ApiHooksClient.create();
+    const { result, rerender, unmount, waitFor } = renderHook(
+      ({ search }: { search: string }) => abortableApiHooks.user.searchUser.useQuery({ parameters: { search, requestDelay: 50 } }),
+      {
+        initialProps: { search: 'a' },
+        wrapper: ({ children }: React.PropsWithChildren<{ search: string }>) => (
+          <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>
+        ),
+      }
+    );
+    rerender({ search: 'ar' });
+    rerender({ search: 'ard' });
+    await waitFor(() => !!result.current[0].data);
+
+    const signals = signalsFor(searchUser);
+    expect(signals).toHaveLength(3);
+    expect(signals.map((signal) => signal?.aborted)).toEqual([true, true, false]);
+    expect(client.getState()['user.searchUser']['all-data'].paramHash).toContain('"ard"');
+
+    act(() => {
+      result.current[1]({ search: 'bog' }).catch(() => undefined);
+    });
+    unmount();
+    expect(signalsFor(searchUser)[3]?.aborted).toEqual(true);
+    expect(client.isFetching('user.searchUser', 'all-data')).toEqual(false);
+  });
+
+  it('Should set the query status to aborted and ignore the response when cancelled', async () => {
+    const onFetchSuccess = jest.fn();
+    const { result, waitFor } = renderHook(
+      () => apiHooks.user.getUserList.useQuery({ parameters: { requestDelay: 20 }, onFetchSuccess, caching: { staleIfOlderThan: 0 } }),
+      {
+        wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>,
+      }
+    );
+    await waitFor(() => result.current[0].isFetching);
+    act(() => {
+      result.current[3]();
+    });
+    expect(result.current[0].fetchingMode).toEqual('aborted');
+    expect(result.current[0].isFetching).toEqual(false);
+
+    await new Promise((resolve) => {
+      setTimeout(resolve, 50);
+    });
+    expect(result.current[0].data).toBeUndefined();
+    expect(onFetchSuccess).not.toHaveBeenCalled();
+  });
+
+  it('Should abort a mutation in progress when cancelled', async () => {
+    const addUser = jest.spyOn(apiClient.user, 'addUser');
+    const onFetchComplete = jest.fn();
+    const { result } = renderHook(() => abortableApiHooks.user.addUser.useMutation({ onFetchComplete, throwErrors: true }), {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>,
+    });
+    let response: Promise<any> | undefined;
+    act(() => {
+      response = result.current[0]({ data: { firstName: 'Cancelled', lastName: 'User', email: 'cancelled@example.com' }, requestDelay: 20 });
+    });
+    await act(async () => {
+      // let the pre-processor resolve so that the request is in progress
+      await Promise.resolve();
+      result.current[3]();
+      await expect(response).resolves.toBeUndefined();
+    });
+
+    expect(signalsFor(addUser)[0]?.aborted).toEqual(true);
+    expect(result.current[1].fetchingMode).toEqual('aborted');
+    expect(result.current[1].isFetching).toEqual(false);
+    expect(onFetchComplete).not.toHaveBeenCalled();
+  });
+
+  it('Should only pass the abort signal to the endpoint when opted in, mapping it if a function is passed', async () => {
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList');
+    const mappedApiHooks = ApiHooks.create(apiClient, { generalConfig: { passAbortSignal: (signal) => ({ fetchOptions: { signal } }) } });
+
+    await ApiHooksClient.create({ hooks: apiHooks }).fetchQuery(endpointIds.user.getUserList());
+    await ApiHooksClient.create({ hooks: mappedApiHooks }).fetchQuery(endpointIds.user.getUserList());
+
+    const secondArgs = (getUserList as jest.SpyInstance).mock.calls.map((call) => call[1]);
+    expect(secondArgs[0]).toBeUndefined();
+    expect(secondArgs[1].fetchOptions.signal).toBeInstanceOf(AbortSignal);
+  });
+});
@@ -0,0 +1,80 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooks } from '../src/core/apiHooks';
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksGlobal } from '../src/core/global';
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+import { MemoryServer } from '../mock/servers/memory';
+import { apiClient } from '../mock/api/apiClient';
+
+it('Client should fetch and cache a query outside of React, sharing requests in progress', async () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  const onFetchStart = jest.fn();
+
+  const first = client.fetchQuery(endpointIds.user.getUserList(), { requestDelay: 10 }, { onFetchStart });
+  const second = client.fetchQuery(endpointIds.user.getUserList(), { requestDelay: 10 }, { onFetchStart });
+  const [firstUsers, secondUsers] = await Promise.all([first, second]);
+
+  expect(onFetchStart).toHaveBeenCalledTimes(1);
+  expect(secondUsers).toBe(firstUsers);
+  expect(client.getQueryData(endpointIds.user.getUserList())).toBe(firstUsers);
+
+  // cached data is still valid, so should be returned without a request
+  await client.fetchQuery(endpointIds.user.getUserList(), { requestDelay: 10 }, { onFetchStart });
+  expect(onFetchStart).toHaveBeenCalledTimes(1);
+});
+
+it('Client passed to the provider should share its cache with the hooks', async () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  await client.prefetchQuery(endpointIds.user.getUserList());
+
+  const { result } = renderHook(() => apiHooks.user.getUserList.useQuery(), {
+    wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+  });
+
+  expect(result.current[0].data).toEqual(client.getQueryData(endpointIds.user.getUserList()));
+  expect(result.current[0].isFetching).toEqual(false);
+
+  act(() => {
+    client.setQueryData<MemoryServer.IUser[]>(endpointIds.user.getUserList(), (users) => users?.slice(0, 1) ?? []);
+  });
+
+  expect(result.current[0].data?.length).toEqual(1);
+});
+
+it('Client should use the query runners of the hooks passed to it, so that separately created hooks never overwrite each other', async () => {
+  const onFetchStart = jest.fn();
+  const otherApiHooks = ApiHooks.create(apiClient, { queryConfig: { onFetchStart } });
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  const otherClient = ApiHooksClient.create({ hooks: otherApiHooks });
+
+  await client.fetchQuery(endpointIds.user.getUserList());
+  expect(onFetchStart).not.toHaveBeenCalled();
+  await otherClient.fetchQuery(endpointIds.user.getUserList());
+  expect(onFetchStart).toHaveBeenCalledTimes(1);
+
+  // a client without hooks can't resolve the query settings
+  expect(() => ApiHooksClient.create().fetchQuery(endpointIds.user.getUserList())).toThrow(/no query runner has been registered/);
+});
+
+it('Deprecated global fetching, mounting and pinning functions should delegate to the client of the mounted provider', () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  const { unmount } = renderHook(() => undefined, {
+    wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+  });
+
+  ApiHooksGlobal.setFetching('user.getUserList', 'default', true);
+  expect(client.isFetching('user.getUserList', 'default')).toEqual(true);
+  ApiHooksGlobal.setPinned('user.getUserList', 'default', true);
+  expect(client.isPinned('user.getUserList', 'default')).toEqual(true);
+  ApiHooksGlobal.setMounted('user.getUserList', 'default');
+  expect(client.isMounted('user.getUserList', 'default')).toEqual(true);
+  client.setFetching('user.getUserList', 'default', false);
+  expect(ApiHooksGlobal.isFetching('user.getUserList', 'default')).toEqual(false);
+
+  unmount();
+  client.setFetching('user.getUserList', 'default', true);
+  expect(ApiHooksGlobal.isFetching('user.getUserList', 'default')).toEqual(false);
+});
@@ -0,0 +1,64 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks } from '../mock/state/apiHooks';
+import { wait } from '../mock/utils/wait';
+
+const wrapper = ({ children }: React.PropsWithChildren<{ enabled?: boolean }>) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Enabled', () => {
+  it('Should hold a dependent query until the predicate passes', async () => {
+    const getUser = jest.spyOn(apiClient.user, 'getUser');
+    const { result, waitFor } = renderHook(
+      () => {
+        const [{ data: users }] = apiHooks.user.getUserList.useQuery({ parameters: { requestDelay: 50 } });
+        return apiHooks.user.getUser.useQuery({ parameters: { id: users?.[0]?.id }, enabled: (params) => !!params.id });
+      },
+      { wrapper }
+    );
+    await wait(5);
+    expect(getUser).not.toHaveBeenCalled();
+
+    await waitFor(() => !!result.current[0].data);
+    expect(getUser).toHaveBeenCalledTimes(1);
+    expect(result.current[0].data?.id).toEqual('cb6471de-51c0-44d3-8c88-8c2be94ddee0');
+  });
+
+  it('Should not invoke on mount or param change while disabled, and invoke once enabled', async () => {
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList');
+    const { rerender } = renderHook(
+      ({ enabled, requestDelay }: { enabled: boolean; requestDelay: number }) =>
+        apiHooks.user.getUserList.useQuery({ parameters: { requestDelay }, enabled }),
+      { wrapper, initialProps: { enabled: false, requestDelay: 1 } }
+    );
+    await wait(20);
+    rerender({ enabled: false, requestDelay: 2 });
+    await wait(20);
+    expect(getUserList).not.toHaveBeenCalled();
+
+    rerender({ enabled: true, requestDelay: 2 });
+    await wait(20);
+    expect(getUserList).toHaveBeenCalledTimes(1);
+    expect(getUserList.mock.calls[0][0]).toEqual({ requestDelay: 2 });
+  });
+
+  it('Should still allow manual invocations while disabled', async () => {
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList');
+    const { result, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery({ enabled: false }), { wrapper });
+    await wait(20);
+    expect(getUserList).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current[1]().catch(() => undefined);
+    });
+    await waitFor(() => !!result.current[0].data);
+    expect(getUserList).toHaveBeenCalledTimes(1);
+    expect(result.current[0].data?.length).toEqual(5);
+  });
+});
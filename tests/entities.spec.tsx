@@ -0,0 +1,65 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooks } from '../src/core/apiHooks';
+import { ApiHooksCaching } from '../src/core/caching';
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksEntities } from '../src/core/entities';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { endpointIds } from '../mock/state/apiHooks';
+import { MemoryServer } from '../mock/servers/memory';
+
+const userEntity = ApiHooksEntities.entity<MemoryServer.IUser>('user');
+
+const apiHooks = ApiHooks.create(apiClient, {
+  hookConfigFactory: (config) => {
+    /* eslint-disable no-param-reassign */
+    config.user.getUserList.normaliser = [userEntity];
+    config.user.getUser.normaliser = userEntity;
+    config.user.updateUser.normaliser = userEntity;
+    /* eslint-enable no-param-reassign */
+    return config;
+  },
+});
+
+it('Normalise and denormalise should extract entities by type and ID and restore them', () => {
+  const schema = { items: [ApiHooksEntities.entity('user', { nested: { manager: ApiHooksEntities.entity('user') } })] };
+  const response = { items: [{ id: '1', manager: { id: '2', name: 'Manager' } }], total: 1 };
+  const { result, entities } = ApiHooksEntities.normalise(response, schema);
+
+  expect(result).toEqual({ items: ['1'], total: 1 });
+  expect(entities).toEqual({ user: { '1': { id: '1', manager: '2' }, '2': { id: '2', name: 'Manager' } } });
+
+  ApiHooksEntities.registerNormaliser('test.getUsers', schema);
+  const state = ApiHooksEntities.mergeEntities({}, entities);
+  expect(ApiHooksEntities.denormalise(state, 'test.getUsers', result)).toEqual(response);
+});
+
+it('An entity returned from a mutation should update every query containing it', async () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  const { result, waitFor } = renderHook(
+    () => {
+      const [{ data: users }] = apiHooks.user.getUserList.useQuery();
+      const [updateUser] = apiHooks.user.updateUser.useMutation();
+      return { users, updateUser };
+    },
+    {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+    }
+  );
+  await waitFor(() => !!result.current.users?.length);
+  const [firstUser, secondUser] = result.current.users ?? [];
+  await client.prefetchQuery(endpointIds.user.getUser(), { id: firstUser.id });
+
+  // the query stores references to the shared entity table
+  expect(client.getState()['user.getUserList'][ApiHooksCaching.defaultCacheKey].data[0]).toEqual(firstUser.id);
+
+  await act(async () => {
+    await result.current.updateUser({ id: firstUser.id, data: { firstName: 'Updated' } });
+  });
+
+  expect(result.current.users?.[0]).toEqual({ ...firstUser, firstName: 'Updated' });
+  expect(result.current.users?.[1]).toBe(secondUser);
+  expect(client.getQueryData<MemoryServer.IUser>(endpointIds.user.getUser())?.firstName).toEqual('Updated');
+});
@@ -0,0 +1,90 @@
+import { renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksFocus } from '../src/core/focus';
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks } from '../mock/state/apiHooks';
+import { wait } from '../mock/utils/wait';
+
+const wrapper = ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>;
+
+describe('Focus', () => {
+  it('Should only listen to the event source while subscribed, and call listeners when regaining focus', () => {
+    const teardown = jest.fn();
+    let setActive: (isActive: boolean) => void = () => undefined;
+    const setup = jest.fn((setActiveFromManager: (isActive: boolean) => void) => {
+      setActive = setActiveFromManager;
+      return teardown;
+    });
+    ApiHooksFocus.focusManager.setEventListener(setup);
+    expect(setup).not.toHaveBeenCalled();
+
+    const listener = jest.fn();
+    const unsubscribe = ApiHooksFocus.focusManager.subscribe(listener);
+    expect(setup).toHaveBeenCalledTimes(1);
+
+    // already focused
+    setActive(true);
+    expect(listener).not.toHaveBeenCalled();
+
+    setActive(false);
+    expect(ApiHooksFocus.focusManager.isActive()).toEqual(false);
+    setActive(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    expect(teardown).toHaveBeenCalledTimes(1);
+    ApiHooksFocus.focusManager.setEventListener(ApiHooksFocus.windowFocusListener);
+  });
+
+  it('Should refetch stale mounted queries when the window regains focus', async () => {
+    const onStaleFetchStart = jest.fn();
+    const onFreshFetchStart = jest.fn();
+    const { result, waitFor } = renderHook(
+      () => {
+        const [stale] = apiHooks.user.getUserList.useQuery({
+          refetchOnFocus: true,
+          caching: { staleIfOlderThan: 0 },
+          onFetchStart: onStaleFetchStart,
+        });
+        const [fresh] = apiHooks.user.searchUser.useQuery({
+          refetchOnFocus: true,
+          caching: { staleIfOlderThan: 'never' },
+          onFetchStart: onFreshFetchStart,
+        });
+        return [stale, fresh];
+      },
+      { wrapper }
+    );
+    await waitFor(() => result.current.every((response) => !!response.data));
+    expect(onStaleFetchStart).toHaveBeenCalledTimes(1);
+    expect(onFreshFetchStart).toHaveBeenCalledTimes(1);
+
+    ApiHooksFocus.focusManager.setActive(false);
+    ApiHooksFocus.focusManager.setActive(true);
+    await waitFor(() => onStaleFetchStart.mock.calls.length === 2);
+
+    expect(onStaleFetchStart).toHaveBeenCalledTimes(2);
+    expect(onStaleFetchStart.mock.calls[1][1]).toEqual('refetch');
+    expect(onFreshFetchStart).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should refetch stale mounted queries when the network comes back online', async () => {
+    const onFetchStart = jest.fn();
+    const { result, unmount, waitFor } = renderHook(
+      () => apiHooks.user.getUserList.useQuery({ refetchOnReconnect: true, caching: { staleIfOlderThan: 0 }, onFetchStart }),
+      { wrapper }
+    );
+    await waitFor(() => !!result.current[0].data);
+
+    window.dispatchEvent(new Event('offline'));
+    window.dispatchEvent(new Event('online'));
+    await waitFor(() => onFetchStart.mock.calls.length === 2);
+
+    unmount();
+    window.dispatchEvent(new Event('offline'));
+    window.dispatchEvent(new Event('online'));
+    await wait(20);
+    expect(onFetchStart).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,66 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks } from '../mock/state/apiHooks';
+import { wait } from '../mock/utils/wait';
+
+const wrapper = ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Freshness', () => {
+  it('Should report the loading, refetching and stale statuses of the cached data', async () => {
+    const { result, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery({ caching: { staleIfOlderThan: 50 } }), { wrapper });
+    expect(result.current[0]).toMatchObject({ isLoading: true, isRefetching: false, isStale: true, dataUpdatedAt: undefined });
+
+    await waitFor(() => !result.current[0].isLoading);
+    expect(result.current[0]).toMatchObject({ isLoading: false, isRefetching: false, isStale: false, isPlaceholder: false });
+    const { dataUpdatedAt } = result.current[0];
+    expect(dataUpdatedAt).toBeLessThanOrEqual(Date.now());
+
+    act(() => {
+      result.current[1]().catch(() => undefined);
+    });
+    expect(result.current[0]).toMatchObject({ isLoading: false, isRefetching: true });
+    await waitFor(() => !result.current[0].isRefetching);
+    expect(result.current[0].dataUpdatedAt).toBeGreaterThanOrEqual(dataUpdatedAt ?? 0);
+
+    // becomes stale without any other state change
+    await waitFor(() => result.current[0].isStale);
+  });
+
+  it('Should report the time of the last error, and re-fetch when retried', async () => {
+    jest.spyOn(apiClient.user, 'getUserList').mockRejectedValueOnce(new Error('Network error'));
+    const { result, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery(), { wrapper });
+    await waitFor(() => !!result.current[0].error);
+    expect(result.current[0].error).toBeDefined();
+    expect(result.current[0].errorUpdatedAt).toBeLessThanOrEqual(Date.now());
+
+    act(() => result.current[0].retry());
+    await waitFor(() => !!result.current[0].data);
+    expect(result.current[0].error).toBeUndefined();
+    expect(result.current[0].data?.length).toEqual(5);
+  });
+
+  it('Should flag initial data as a placeholder until data is returned by a request', async () => {
+    const { result, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery({ initialData: [] }), { wrapper });
+    expect(result.current[0]).toMatchObject({ data: [], isPlaceholder: true, dataUpdatedAt: undefined });
+
+    // the initial data is stored in the cache, but is still flagged as a placeholder
+    await wait(20);
+    expect(result.current[0]).toMatchObject({ data: [], isPlaceholder: true, dataUpdatedAt: undefined });
+
+    act(() => {
+      result.current[1]().catch(() => undefined);
+    });
+    expect(result.current[0]).toMatchObject({ isLoading: true, isRefetching: false });
+    await waitFor(() => !result.current[0].isLoading);
+    expect(result.current[0]).toMatchObject({ isPlaceholder: false, isLoading: false });
+    expect(result.current[0].data?.length).toEqual(5);
+    expect(result.current[0].dataUpdatedAt).toBeLessThanOrEqual(Date.now());
+  });
+});
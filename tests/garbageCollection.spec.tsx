@@ -0,0 +1,67 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+it('Unused state slices should be removed once they have been un-mounted for longer than the "gcAfter" directive', async () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  const { result, unmount } = renderHook(() => apiHooks.user.getUserList.useQuery({ caching: { gcAfter: 50 } }), {
+    wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+  });
+  await act(async () => {
+    await jest.runOnlyPendingTimersAsync();
+  });
+  expect(result.current[0].data).toBeDefined();
+
+  // mounted data is never collected
+  jest.advanceTimersByTime(100);
+  expect(client.getQueryData(endpointIds.user.getUserList())).toBeDefined();
+
+  unmount();
+  jest.advanceTimersByTime(25);
+  expect(client.getQueryData(endpointIds.user.getUserList())).toBeDefined();
+
+  jest.advanceTimersByTime(50);
+  expect(client.getQueryData(endpointIds.user.getUserList())).toBeUndefined();
+});
+
+it('Prefetched state slices should be collected if they are not used', async () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  const params = { id: 'cb6471de-51c0-44d3-8c88-8c2be94ddee0' };
+  await client.prefetchQuery(endpointIds.user.getUser(), params, { caching: { gcAfter: 20 } });
+  expect(client.getQueryData(endpointIds.user.getUser(), params)).toBeDefined();
+
+  jest.advanceTimersByTime(50);
+  expect(client.getState()['user.getUser']).toEqual({});
+});
+
+it('Mounted state slices should only be kept by the client of the mounted component', async () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  const otherClient = ApiHooksClient.create({ hooks: apiHooks });
+  const { result } = renderHook(() => apiHooks.user.getUserList.useQuery({ caching: { gcAfter: 20 } }), {
+    wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+  });
+  await act(async () => {
+    await jest.runOnlyPendingTimersAsync();
+  });
+  expect(result.current[0].data).toBeDefined();
+  expect(client.isMounted('user.getUserList', 'all-data')).toEqual(true);
+  expect(otherClient.isMounted('user.getUserList', 'all-data')).toEqual(false);
+
+  await otherClient.prefetchQuery(endpointIds.user.getUserList(), undefined, { caching: { gcAfter: 20 } });
+  expect(otherClient.getQueryData(endpointIds.user.getUserList())).toBeDefined();
+
+  jest.advanceTimersByTime(50);
+  expect(otherClient.getQueryData(endpointIds.user.getUserList())).toBeUndefined();
+  expect(client.getQueryData(endpointIds.user.getUserList())).toBeDefined();
+});
@@ -0,0 +1,35 @@
+import { renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks } from '../mock/state/apiHooks';
+
+const serverUsers = [{ id: 'server-user', firstName: 'Server', lastName: 'User', email: 'server@user.com' }];
+
+const serverState: ApiHooksStore.State = {
+  'user.getUserList': {
+    'all-data': { status: 'loaded', data: serverUsers, paramHash: '{}', timestamp: Date.now(), maxCachingDepth: 5 },
+  },
+  'user.getUser': {
+    '1': { status: 'loading-auto', paramHash: '{"id":"1"}', timestamp: Date.now(), maxCachingDepth: 5 },
+    '2': { status: 'error', error: 'Not found', paramHash: '{"id":"2"}', timestamp: Date.now(), maxCachingDepth: 5 },
+    '3': { status: 'loaded', data: serverUsers[0], paramHash: '{"id":"3"}', timestamp: Date.now(), maxCachingDepth: 5, isPlaceholder: true },
+  },
+};
+
+it('Dehydrate should only include loaded state slices, skipping placeholders', () => {
+  expect(ApiHooksStore.dehydrate(serverState)).toEqual({ 'user.getUserList': serverState['user.getUserList'] });
+});
+
+it('Hydrated state should be used on first render without re-fetching while fresh', async () => {
+  const onFetchStart = jest.fn();
+  const initialState = ApiHooksStore.dehydrate(serverState);
+
+  const { result, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery({ onFetchStart }), {
+    wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider initialState={initialState}>{children}</ApiHooksStore.Provider>,
+  });
+
+  expect(result.current[0].data).toEqual(serverUsers);
+  await expect(waitFor(() => onFetchStart.mock.calls.length > 0, { timeout: 100 })).rejects.toThrow();
+  expect(result.current[0].isFetching).toEqual(false);
+});
@@ -0,0 +1,88 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks } from '../mock/state/apiHooks';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Infinite Queries', () => {
+  it('Should add the next page to the stored pages, until there are no more pages', async () => {
+    const client = ApiHooksClient.create();
+    const { result, waitFor } = renderHook(
+      () =>
+        apiHooks.user.getUserPage.useInfiniteQuery({
+          parameters: { pageSize: 2 },
+          initialPageParam: { cursor: 0 },
+          getNextPageParam: (lastPage) => (lastPage.nextCursor !== undefined ? { cursor: lastPage.nextCursor } : undefined),
+        }),
+      { wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider> }
+    );
+    await waitFor(() => !!result.current[0].data);
+    expect(result.current[0].data?.pages.length).toEqual(1);
+    expect(result.current[0].data?.pageParams).toEqual([{ cursor: 0 }]);
+    expect(result.current[0].hasNextPage).toEqual(true);
+    expect(result.current[0].hasPreviousPage).toEqual(false);
+
+    await act(() => result.current[1]());
+    await act(() => result.current[1]());
+    expect(result.current[0].data?.pages.map((page) => page.users.length)).toEqual([2, 2, 1]);
+    expect(result.current[0].data?.pageParams).toEqual([{ cursor: 0 }, { cursor: 2 }, { cursor: 4 }]);
+    expect(result.current[0].hasNextPage).toEqual(false);
+    expect(result.current[0].isFetchingNextPage).toEqual(false);
+
+    // the pages are stored in their own state slice
+    expect(client.getState()['user.getUserPage']?.['infinite:all-data']?.data?.pages.length).toEqual(3);
+    expect(client.getState()['user.getUserPage']?.['all-data']).toBeUndefined();
+  });
+
+  it('Should re-fetch every loaded page in order when refetched, using the fresh page params', async () => {
+    const getUserPage = jest.spyOn(apiClient.user, 'getUserPage');
+    const { result, waitFor } = renderHook(
+      () =>
+        apiHooks.user.getUserPage.useInfiniteQuery({
+          parameters: { pageSize: 2 },
+          getNextPageParam: (lastPage) => (lastPage.nextCursor !== undefined ? { cursor: lastPage.nextCursor } : undefined),
+        }),
+      { wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider> }
+    );
+    await waitFor(() => !!result.current[0].data);
+    await act(() => result.current[1]());
+    expect(getUserPage).toHaveBeenCalledTimes(2);
+
+    // the second page now starts from a different cursor
+    getUserPage.mockImplementation(async ({ cursor = 0 }) => ({ users: [], nextCursor: cursor === 0 ? 3 : undefined }));
+    await act(async () => {
+      await result.current[3]();
+    });
+    expect(getUserPage).toHaveBeenCalledTimes(4);
+    expect(getUserPage.mock.calls[2][0]).toEqual({ pageSize: 2 });
+    expect(getUserPage.mock.calls[3][0]).toEqual({ pageSize: 2, cursor: 3 });
+    expect(result.current[0].data?.pageParams).toEqual([{}, { cursor: 3 }]);
+    expect(result.current[0].hasNextPage).toEqual(false);
+  });
+
+  it('Should add the previous page to the start of the stored pages', async () => {
+    const { result, waitFor } = renderHook(
+      () =>
+        apiHooks.user.getUserPage.useInfiniteQuery({
+          parameters: { pageSize: 2 },
+          initialPageParam: { cursor: 2 },
+          getNextPageParam: (lastPage) => (lastPage.nextCursor !== undefined ? { cursor: lastPage.nextCursor } : undefined),
+          getPreviousPageParam: (firstPage, allPages, firstPageParam) =>
+            firstPageParam.cursor ? { cursor: Math.max(firstPageParam.cursor - 2, 0) } : undefined,
+        }),
+      { wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider> }
+    );
+    await waitFor(() => !!result.current[0].data);
+    expect(result.current[0].hasPreviousPage).toEqual(true);
+
+    await act(() => result.current[2]());
+    expect(result.current[0].data?.pageParams).toEqual([{ cursor: 0 }, { cursor: 2 }]);
+    expect(result.current[0].hasPreviousPage).toEqual(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+
+const userIds = ['cb6471de-51c0-44d3-8c88-8c2be94ddee0', '809db8b9-b7aa-400c-9894-7a64d1e9274f'];
+
+const wrapper = ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Manual invoke', () => {
+  it('Should resolve with the fetched data, or the cached data when nothing needs to be fetched', async () => {
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList');
+    const { result } = renderHook(() => apiHooks.user.getUserList.useQuery({ autoInvoke: false }), { wrapper });
+
+    let users: Awaited<ReturnType<(typeof result.current)[1]>> | undefined;
+    await act(async () => {
+      users = await result.current[1]();
+    });
+    expect(users?.length).toEqual(5);
+    expect(getUserList).toHaveBeenCalledTimes(1);
+
+    // the cache is valid, so the cached data is returned without a request
+    await act(async () => {
+      users = await result.current[1](undefined, { forceNetwork: false });
+    });
+    expect(users).toBe(result.current[0].data);
+    expect(getUserList).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should resolve with the cached data for the parameters invoked with, rather than the data the hook is showing', async () => {
+    const client = ApiHooksClient.create({ hooks: apiHooks });
+    await client.prefetchQuery<{ id: string }>(endpointIds.user.getUser(), { id: userIds[1] }, { cacheKey: 'id' });
+    const getUser = jest.spyOn(apiClient.user, 'getUser');
+    const { result, waitFor } = renderHook(
+      () => apiHooks.user.getUser.useQuery({ parameters: { id: userIds[0] }, cacheKey: 'id', invokeOnParamChange: false }),
+      { wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider> }
+    );
+    await waitFor(() => !!result.current[0].data);
+    expect(getUser).toHaveBeenCalledTimes(1);
+
+    let user: Awaited<ReturnType<(typeof result.current)[1]>> | undefined;
+    await act(async () => {
+      user = await result.current[1]({ id: userIds[1] }, { forceNetwork: false });
+    });
+    expect(user?.id).toEqual(userIds[1]);
+    expect(getUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should share the request already in progress', async () => {
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList');
+    const { result } = renderHook(() => apiHooks.user.getUserList.useQuery({ parameters: { requestDelay: 10 } }), { wrapper });
+    expect(result.current[0].isFetching).toEqual(true);
+
+    let users: Awaited<ReturnType<(typeof result.current)[1]>> | undefined;
+    await act(async () => {
+      users = await result.current[1](undefined, { forceNetwork: false });
+    });
+    expect(getUserList).toHaveBeenCalledTimes(1);
+    expect(users?.length).toEqual(5);
+  });
+
+  it('Should reject when the request fails, whilst still storing the error in state', async () => {
+    const error = new Error('Network error');
+    jest.spyOn(apiClient.user, 'getUserList').mockRejectedValueOnce(error);
+    const { result, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery({ autoInvoke: false }), { wrapper });
+
+    await act(async () => {
+      await expect(result.current[1]()).rejects.toBe(error);
+    });
+    expect(result.current[0].error).toBe(error);
+
+    // un-handled manual invocations don't throw
+    act(() => {
+      // eslint-disable-next-line @typescript-eslint/no-floating-promises
+      result.current[1]();
+    });
+    await waitFor(() => !!result.current[0].data);
+    expect(result.current[0].error).toBeUndefined();
+  });
+
+  it('Should resolve with undefined when the request is cancelled', async () => {
+    const { result } = renderHook(() => apiHooks.user.getUserList.useQuery({ autoInvoke: false }), { wrapper });
+
+    let request: ReturnType<(typeof result.current)[1]> | undefined;
+    act(() => {
+      request = result.current[1]({ requestDelay: 20 });
+    });
+    act(() => result.current[3]());
+    await act(async () => {
+      await expect(request).resolves.toBeUndefined();
+    });
+    expect(result.current[0].fetchingMode).toEqual('aborted');
+  });
+});
@@ -0,0 +1,116 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksOptimistic } from '../src/core/optimistic';
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+import { MemoryServer } from '../mock/servers/memory';
+
+const renameUser = (users: MemoryServer.IUser[], params: { id?: string; data?: Partial<MemoryServer.IUser> }) =>
+  users.map((user) => (user.id === params.id ? { ...user, ...params.data } : user));
+
+const useOptimisticTest = () => {
+  const [{ data }] = apiHooks.user.getUserList.useQuery();
+  const [updateUser] = apiHooks.user.updateUser.useMutation({
+    throwErrors: false,
+    optimisticUpdates: [{ endpointId: endpointIds.user.getUserList(), updater: renameUser }],
+  });
+  return { data, updateUser };
+};
+
+const wrapper = ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>;
+
+it('Optimistic update should apply before the mutation responds and roll back on error', async () => {
+  const { result, waitFor } = renderHook(() => useOptimisticTest(), { wrapper });
+  await waitFor(() => !!result.current.data?.length);
+  const [firstUser] = result.current.data ?? [];
+
+  let mutation: Promise<any> | undefined;
+  act(() => {
+    mutation = result.current.updateUser({ id: firstUser.id, data: { firstName: 'Provisional' }, requestDelay: 50, throwServerError: true });
+  });
+
+  await waitFor(() => result.current.data?.[0].firstName === 'Provisional');
+  await act(async () => {
+    await mutation;
+  });
+
+  expect(result.current.data?.[0]).toEqual(firstUser);
+});
+
+it('Optimistic update rollback should leave overlapping updates in place', async () => {
+  const { result, waitFor } = renderHook(() => useOptimisticTest(), { wrapper });
+  await waitFor(() => !!result.current.data?.length);
+  const [firstUser, secondUser] = result.current.data ?? [];
+
+  let failing: Promise<any> | undefined;
+  let succeeding: Promise<any> | undefined;
+  act(() => {
+    failing = result.current.updateUser({ id: firstUser.id, data: { firstName: 'Failing' }, requestDelay: 20, throwServerError: true });
+    succeeding = result.current.updateUser({ id: secondUser.id, data: { firstName: 'Succeeding' }, requestDelay: 50 });
+  });
+
+  await waitFor(() => result.current.data?.[0].firstName === 'Failing' && result.current.data?.[1].firstName === 'Succeeding');
+  await act(async () => {
+    await failing;
+  });
+
+  expect(result.current.data?.[0].firstName).toEqual(firstUser.firstName);
+  expect(result.current.data?.[1].firstName).toEqual('Succeeding');
+
+  await act(async () => {
+    await succeeding;
+  });
+
+  expect(result.current.data?.[1].firstName).toEqual('Succeeding');
+});
+
+it('Optimistic updates already applied should be rolled back when a later update throws', async () => {
+  const { result, waitFor } = renderHook(
+    () => {
+      const [{ data }] = apiHooks.user.getUserList.useQuery();
+      const [updateUser, mutationResponse] = apiHooks.user.updateUser.useMutation({
+        throwErrors: false,
+        optimisticUpdates: [
+          { endpointId: endpointIds.user.getUserList(), updater: renameUser },
+          {
+            endpointId: endpointIds.user.getUserList(),
+            updater: () => {
+              throw new Error('Updater error');
+            },
+          },
+        ],
+      });
+      return { data, updateUser, mutationResponse };
+    },
+    { wrapper }
+  );
+  await waitFor(() => !!result.current.data?.length);
+  const [firstUser] = result.current.data ?? [];
+
+  await act(async () => {
+    await result.current.updateUser({ id: firstUser.id, data: { firstName: 'Provisional' } });
+  });
+
+  expect(result.current.data?.[0]).toEqual(firstUser);
+  expect(result.current.mutationResponse.status).toEqual('error');
+  expect(result.current.mutationResponse.error?.message).toEqual('Updater error');
+});
+
+it('Optimistic updates should be held per client, and skipped without calling the updater when there is no cached data', () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  const otherClient = ApiHooksClient.create({ hooks: apiHooks });
+  const updater = jest.fn((users: MemoryServer.IUser[]) => users);
+
+  client.dispatch(ApiHooksStore.Actions.loading('user.getUserList', '{}', 'default', 'auto', 10));
+  const skipped = ApiHooksOptimistic.apply(client.optimisticLayers, client.getState(), client.dispatch, 'user.getUserList', 'default', updater, {});
+  expect(skipped).toBeUndefined();
+  expect(updater).not.toHaveBeenCalled();
+
+  client.dispatch(ApiHooksStore.Actions.loaded('user.getUserList', '{}', 'default', [], 10, 1000));
+  const layerId = ApiHooksOptimistic.apply(client.optimisticLayers, client.getState(), client.dispatch, 'user.getUserList', 'default', updater, {});
+  expect(layerId).toBeDefined();
+  expect(ApiHooksOptimistic.isPending(client.optimisticLayers, 'user.getUserList', 'default')).toEqual(true);
+  expect(ApiHooksOptimistic.isPending(otherClient.optimisticLayers, 'user.getUserList', 'default')).toEqual(false);
+});
@@ -0,0 +1,89 @@
+import { ApiHooksEvents } from '../src/core/events';
+import { ApiHooksPersistence } from '../src/core/persistence';
+import { ApiHooksStore } from '../src/core/store';
+import { endpointIds } from '../mock/state/apiHooks';
+
+const createMemoryAdapter = (): ApiHooksPersistence.StorageAdapter & { store: Record<string, string> } => {
+  const store: Record<string, string> = {};
+  return {
+    store,
+    get: (key) => store[key],
+    set: (key, value) => {
+      store[key] = value;
+    },
+    remove: (key) => {
+      delete store[key];
+    },
+  };
+};
+
+const state: ApiHooksStore.State = {
+  'user.getUserList': {
+    'all-data': { status: 'loading-refetch', data: [{ id: '1' }], paramHash: '{}', timestamp: Date.now(), maxCachingDepth: 5, shouldRefetchData: {} },
+  },
+  'user.getUser': {
+    '1': { status: 'loaded', data: { id: '1' }, paramHash: '{"id":"1"}', timestamp: Date.now(), maxCachingDepth: 5 },
+    '2': { status: 'error', error: 'Not found', paramHash: '{"id":"2"}', timestamp: Date.now(), maxCachingDepth: 5 },
+    '3': { status: 'loaded', data: { id: '3' }, paramHash: '{"id":"3"}', timestamp: 0, maxCachingDepth: 5 },
+    '4': { status: 'loaded', data: { id: '4' }, paramHash: '{"id":"4"}', timestamp: Date.now(), maxCachingDepth: 5, isPlaceholder: true },
+  },
+  'user.searchUser': {
+    'all-data': { status: 'loaded', data: [], paramHash: '{}', timestamp: Date.now(), maxCachingDepth: 5 },
+  },
+};
+
+describe('Persistence', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('Should write a throttled, sanitized copy of the cache and restore it as the initial state', () => {
+    const adapter = createMemoryAdapter();
+    const persister = ApiHooksPersistence.create({
+      adapter,
+      version: 1,
+      throttle: 500,
+      endpoints: { deny: [endpointIds.user.searchUser()] },
+    });
+
+    ApiHooksEvents.onCacheUpdated.executeEventHooks(state);
+    ApiHooksEvents.onCacheUpdated.executeEventHooks(state);
+    expect(adapter.store[ApiHooksPersistence.defaultStorageKey]).toBeUndefined();
+
+    jest.advanceTimersByTime(500);
+
+    const restored = ApiHooksEvents.onBeforeInitialState.executeEventHooks();
+    expect(restored).toEqual({
+      'user.getUserList': {
+        'all-data': {
+          status: 'loaded',
+          data: [{ id: '1' }],
+          paramHash: '{}',
+          timestamp: state['user.getUserList']['all-data'].timestamp,
+          maxCachingDepth: 5,
+        },
+      },
+      'user.getUser': {
+        '1': { status: 'loaded', data: { id: '1' }, paramHash: '{"id":"1"}', timestamp: state['user.getUser']['1'].timestamp, maxCachingDepth: 5 },
+      },
+    });
+
+    persister.unregister();
+  });
+
+  it('Should drop a persisted cache with a different version', () => {
+    const adapter = createMemoryAdapter();
+    adapter.store[ApiHooksPersistence.defaultStorageKey] = JSON.stringify({ version: 1, state });
+
+    const persister = ApiHooksPersistence.create({ adapter, version: 2 });
+
+    expect(ApiHooksEvents.onBeforeInitialState.executeEventHooks()).toBeUndefined();
+    expect(adapter.store[ApiHooksPersistence.defaultStorageKey]).toBeUndefined();
+
+    persister.unregister();
+  });
+});
@@ -0,0 +1,70 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks } from '../mock/state/apiHooks';
+
+// polling is driven by timers, so time is advanced with jest's fake timers rather than waited for
+const advanceTime = (delay: number) =>
+  act(async () => {
+    await jest.advanceTimersByTimeAsync(delay);
+  });
+
+const wrapper = ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>;
+
+let visibilityState: DocumentVisibilityState = 'visible';
+
+beforeAll(() => {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => visibilityState });
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  visibilityState = 'visible';
+  jest.useRealTimers();
+});
+
+describe('Polling', () => {
+  it('Should refetch on an interval while mounted, and stop when un-mounted', async () => {
+    const onFetchStart = jest.fn();
+    const { unmount } = renderHook(() => apiHooks.user.getUserList.useQuery({ refetchInterval: 10, onFetchStart }), { wrapper });
+    await advanceTime(100);
+    expect(onFetchStart.mock.calls.length).toBeGreaterThanOrEqual(3);
+    expect(onFetchStart.mock.calls.slice(1).map((call) => call[1])).toEqual(onFetchStart.mock.calls.slice(1).map(() => 'refetch'));
+
+    unmount();
+    const fetchCount = onFetchStart.mock.calls.length;
+    await advanceTime(50);
+    expect(onFetchStart).toHaveBeenCalledTimes(fetchCount);
+  });
+
+  it('Should stop polling when the interval function returns false', async () => {
+    const onFetchStart = jest.fn();
+    const refetchInterval = jest.fn(() => (onFetchStart.mock.calls.length < 3 ? 10 : false));
+    const { result } = renderHook(() => apiHooks.user.getUserList.useQuery({ refetchInterval, onFetchStart }), { wrapper });
+    await advanceTime(150);
+    expect(onFetchStart).toHaveBeenCalledTimes(3);
+    expect(refetchInterval).toHaveBeenCalledWith(result.current[0].data);
+  });
+
+  it('Should pause polling while the document is hidden', async () => {
+    const onFetchStart = jest.fn();
+    const { result } = renderHook(() => apiHooks.user.getUserList.useQuery({ refetchInterval: 10, onFetchStart }), { wrapper });
+    await advanceTime(0);
+    expect(result.current[0].data).toBeDefined();
+
+    visibilityState = 'hidden';
+    await advanceTime(50);
+    const fetchCount = onFetchStart.mock.calls.length;
+    await advanceTime(50);
+    expect(onFetchStart).toHaveBeenCalledTimes(fetchCount);
+
+    visibilityState = 'visible';
+    document.dispatchEvent(new Event('visibilitychange'));
+    await advanceTime(20);
+    expect(onFetchStart.mock.calls.length).toBeGreaterThan(fetchCount);
+  });
+});
@@ -0,0 +1,67 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+
+const searchUserState = (client: ApiHooksClient.Client) => client.getState()['user.searchUser'];
+
+const createClient = async () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  await client.prefetchQuery<{ search: string }>(endpointIds.user.searchUser(), { search: 'ardith' }, { cacheKey: 'search' });
+  await client.prefetchQuery<{ search: string }>(endpointIds.user.searchUser(), { search: 'bogdan' }, { cacheKey: 'search' });
+  return client;
+};
+
+it('A refetch query predicate should only refetch the state slices it matches', async () => {
+  const client = await createClient();
+  const { result } = renderHook(
+    () =>
+      apiHooks.user.addUser.useMutation({
+        refetchQueries: (settings) => [
+          endpointIds.user.searchUser({
+            predicate: ({ params }) => !!settings.parameters?.data?.lastName.toLowerCase().includes(params.search ?? ''),
+          }),
+        ],
+      }),
+    {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+    }
+  );
+
+  await act(async () => {
+    await result.current[0]({ data: { firstName: 'New', lastName: 'Ardith', email: 'new.ardith@example.com' } });
+  });
+
+  expect(searchUserState(client).ardith.shouldRefetchData).toEqual({});
+  expect(searchUserState(client).bogdan.shouldRefetchData).toBeUndefined();
+});
+
+it('The same predicate should work with the tools, reset hook and query client', async () => {
+  const client = await createClient();
+  const { result } = renderHook(
+    () => ({
+      tools: apiHooks.user.searchUser.useTools(),
+      reset: ApiHooksStore.useReset(),
+    }),
+    {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+    }
+  );
+  act(() => {
+    result.current.tools.refetchAllQueries({ predicate: ({ data }) => !!data?.some((user: { lastName: string }) => user.lastName === 'Bogdan') });
+  });
+  expect(searchUserState(client).bogdan.shouldRefetchData).toEqual({});
+  expect(searchUserState(client).ardith.shouldRefetchData).toBeUndefined();
+
+  act(() => {
+    client.invalidate(endpointIds.user.searchUser({ predicate: ({ cacheKeyValue }) => cacheKeyValue === 'ardith' }));
+  });
+  expect(searchUserState(client).ardith.shouldRefetchData).toEqual({});
+
+  act(() => {
+    result.current.reset(endpointIds.user.searchUser({ predicate: ({ params }) => params.search === 'ardith' }));
+  });
+  expect(Object.keys(searchUserState(client))).toEqual(['bogdan']);
+});
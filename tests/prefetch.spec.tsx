@@ -0,0 +1,58 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+
+const userId = 'cb6471de-51c0-44d3-8c88-8c2be94ddee0';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Prefetch', () => {
+  it('Should fill the cache so that a later query is an instant cache hit', async () => {
+    const getUser = jest.spyOn(apiClient.user, 'getUser');
+    const client = ApiHooksClient.create();
+    const wrapper = ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>;
+
+    const { result: tools } = renderHook(() => apiHooks.user.getUser.useTools(), { wrapper });
+    await act(() => tools.current.prefetch({ id: userId }, { cacheKey: 'id' }));
+    await act(() => tools.current.prefetch({ id: userId }, { cacheKey: 'id' }));
+    expect(getUser).toHaveBeenCalledTimes(1);
+    expect(client.getState()['user.getUser']?.[userId]?.data?.firstName).toEqual('Poornima');
+
+    const { result } = renderHook(() => apiHooks.user.getUser.useQuery({ parameters: { id: userId }, cacheKey: 'id' }), { wrapper });
+    // the data is returned on the very first render
+    expect((result.all[0] as typeof result.current)[0]).toMatchObject({ data: { id: userId }, isFetching: false });
+    expect(getUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should use the mock endpoint rules', async () => {
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList');
+    const client = ApiHooksClient.create();
+    const { result: tools } = renderHook(() => apiHooks.user.getUserList.useTools(), {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+    });
+    await act(() => tools.current.prefetch(undefined, { useMockEndpoints: true }));
+    expect(getUserList).not.toHaveBeenCalled();
+    expect(client.getState()['user.getUserList']?.['all-data']?.data).toEqual([]);
+  });
+
+  it('Should use the test keys of the provider rather than those of the client passed to it', async () => {
+    const testKey = 'test-keys-test';
+    const client = ApiHooksClient.create();
+    const testKeys: ApiHooksStore.TestKeyState = { [endpointIds.user.getUserList().endpointHash]: { testKey } };
+    const { result: tools } = renderHook(() => apiHooks.user.getUserList.useTools(), {
+      wrapper: ({ children }: React.PropsWithChildren) => (
+        <ApiHooksStore.Provider client={client} testKeys={testKeys}>
+          {children}
+        </ApiHooksStore.Provider>
+      ),
+    });
+    await act(() => tools.current.prefetch());
+    expect(client.getState()['user.getUserList']?.['all-data']?.data?.[0]?.id).toEqual(testKey);
+  });
+});
@@ -0,0 +1,117 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+
+const userIds = ['cb6471de-51c0-44d3-8c88-8c2be94ddee0', '809db8b9-b7aa-400c-9894-7a64d1e9274f', '032b1d2c-5ea4-48d6-b86d-35c535cce5a2'];
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Queries', () => {
+  it('Should return a live response for each parameter set, only fetching new parameter sets', async () => {
+    const getUser = jest.spyOn(apiClient.user, 'getUser');
+    const { result, rerender, waitFor } = renderHook(
+      ({ ids }: { ids: string[] }) =>
+        apiHooks.user.getUser.useQueries(
+          ids.map((id) => ({ id })),
+          { cacheKey: 'id' }
+        ),
+      {
+        wrapper: ({ children }: React.PropsWithChildren<{ ids: string[] }>) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>,
+        initialProps: { ids: userIds.slice(0, 2) },
+      }
+    );
+    expect(result.current.map((response) => response.isFetching)).toEqual([true, true]);
+    await waitFor(() => result.current.every((response) => !!response.data));
+    expect(getUser).toHaveBeenCalledTimes(2);
+    expect(result.current.map((response) => response.data?.id)).toEqual(userIds.slice(0, 2));
+
+    rerender({ ids: [userIds[2], userIds[0]] });
+    await waitFor(() => !!result.current[0].data);
+    expect(getUser).toHaveBeenCalledTimes(3);
+    expect(getUser.mock.calls[2][0]).toEqual({ id: userIds[2] });
+    expect(result.current.map((response) => response.data?.id)).toEqual([userIds[2], userIds[0]]);
+  });
+
+  it('Should abort the request in progress when a parameter set changes, returning the same live response shape as useQuery', async () => {
+    const getUser = jest.spyOn(apiClient.user, 'getUser');
+    const { result, rerender, waitFor } = renderHook(({ id }: { id: string }) => apiHooks.user.getUser.useQueries([{ id, requestDelay: 20 }]), {
+      wrapper: ({ children }: React.PropsWithChildren<{ id: string }>) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>,
+      initialProps: { id: userIds[0] },
+    });
+    expect(result.current[0]).toHaveProperty('processed', undefined);
+    expect(result.current[0].isFetching).toEqual(true);
+
+    rerender({ id: userIds[1] });
+    await waitFor(() => !!result.current[0].data);
+    expect(getUser).toHaveBeenCalledTimes(2);
+    expect(result.current[0].data?.id).toEqual(userIds[1]);
+  });
+
+  it('Should share cached data and requests in progress with useQuery', async () => {
+    const getUser = jest.spyOn(apiClient.user, 'getUser');
+    const { result, waitFor } = renderHook(
+      () => {
+        const [single] = apiHooks.user.getUser.useQuery({ parameters: { id: userIds[0] }, cacheKey: 'id' });
+        const list = apiHooks.user.getUser.useQueries(
+          userIds.map((id) => ({ id })),
+          { cacheKey: 'id', select: (user) => user.firstName }
+        );
+        return { single, list };
+      },
+      { wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider> }
+    );
+    await waitFor(() => result.current.list.every((response) => !!response.data));
+    expect(getUser).toHaveBeenCalledTimes(3);
+    expect(result.current.single.data?.firstName).toEqual('Poornima');
+    expect(result.current.list.map((response) => response.data)).toEqual(['Poornima', 'İkbal', 'Lonny']);
+  });
+
+  it('Should refetch each invalidated query with its own parameter set', async () => {
+    const client = ApiHooksClient.create();
+    const getUser = jest.spyOn(apiClient.user, 'getUser');
+    const { result, waitFor } = renderHook(
+      () =>
+        apiHooks.user.getUser.useQueries(
+          userIds.map((id) => ({ id })),
+          { cacheKey: 'id', enabled: (params) => params.id !== userIds[2] }
+        ),
+      { wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider> }
+    );
+    await waitFor(() => !!result.current[0].data && !!result.current[1].data);
+    expect(getUser).toHaveBeenCalledTimes(2);
+
+    act(() => client.invalidate(endpointIds.user.getUser({ cacheKeyValue: userIds[1] })));
+    await waitFor(() => getUser.mock.calls.length === 3);
+    expect(getUser).toHaveBeenCalledTimes(3);
+    expect(getUser.mock.calls[2][0]).toEqual({ id: userIds[1] });
+  });
+
+  it('Should use the initial data for each query that has nothing cached, flagged as a placeholder until it has been fetched', async () => {
+    const initialData = { id: 'placeholder', firstName: '', lastName: '', email: '' };
+    const { result, waitFor } = renderHook(
+      () =>
+        apiHooks.user.getUser.useQueries(
+          userIds.slice(0, 2).map((id) => ({ id })),
+          { cacheKey: 'id', initialData }
+        ),
+      { wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider> }
+    );
+    expect(result.current.map((response) => [response.data, response.isPlaceholder, response.dataUpdatedAt])).toEqual([
+      [initialData, true, undefined],
+      [initialData, true, undefined],
+    ]);
+
+    act(() => result.current[0].retry());
+    expect(result.current[0]).toMatchObject({ isLoading: true, isPlaceholder: true });
+    await waitFor(() => !result.current[0].isFetching);
+    expect(result.current[0]).toMatchObject({ isPlaceholder: false, isLoading: false });
+    expect(result.current[0].data?.id).toEqual(userIds[0]);
+    expect(result.current[1]).toMatchObject({ data: initialData, isPlaceholder: true });
+  });
+});
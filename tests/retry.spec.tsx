@@ -0,0 +1,87 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksEvents } from '../src/core/events';
+import { ApiHooksRetry } from '../src/core/retry';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks } from '../mock/state/apiHooks';
+
+const onFetchError = jest.fn();
+let removeEventHook: () => void;
+
+beforeEach(() => {
+  onFetchError.mockClear();
+  removeEventHook = ApiHooksEvents.onFetchError.addEventHook(onFetchError);
+});
+
+afterEach(() => {
+  removeEventHook();
+  jest.restoreAllMocks();
+});
+
+describe('Retry', () => {
+  it('Should calculate the backoff delay, capped at the max delay', () => {
+    const settings = { baseDelay: 100, maxDelay: 1000, jitter: false };
+    expect([1, 2, 3, 4, 5].map((attempt) => ApiHooksRetry.getDelay(settings, attempt))).toEqual([100, 200, 400, 800, 1000]);
+    expect([1, 2, 3].map((attempt) => ApiHooksRetry.getDelay({ ...settings, backoff: 'linear' }, attempt))).toEqual([100, 200, 300]);
+    expect(ApiHooksRetry.getDelay({ ...settings, backoff: 'fixed' }, 3)).toEqual(100);
+    expect(ApiHooksRetry.getDelay({ ...settings, backoff: (attempt) => attempt * 7 }, 3)).toEqual(21);
+
+    const jittered = ApiHooksRetry.getDelay({ ...settings, jitter: true }, 3);
+    expect(jittered).toBeGreaterThanOrEqual(200);
+    expect(jittered).toBeLessThanOrEqual(400);
+  });
+
+  it('Should retry a failed query, only setting the error status after the final attempt', async () => {
+    jest
+      .spyOn(apiClient.user, 'getUserList')
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockRejectedValueOnce(new Error('Network error'));
+    const client = ApiHooksClient.create();
+    const statuses: (string | undefined)[] = [];
+    client.subscribe((state) => statuses.push(state['user.getUserList']?.['all-data']?.status));
+
+    const retry = { attempts: 3, baseDelay: 1, jitter: false };
+    const { result, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery({ retry }), {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+    });
+    await waitFor(() => !!result.current[0].error);
+
+    expect(onFetchError.mock.calls.map((call) => call[4])).toEqual([
+      { attempt: 1, willRetry: true, delay: 1 },
+      { attempt: 2, willRetry: true, delay: 2 },
+      { attempt: 3, willRetry: false },
+    ]);
+    expect(statuses.filter((status) => status === 'error')).toHaveLength(1);
+    expect(statuses[statuses.length - 1]).toEqual('error');
+
+    // the next request succeeds on the second attempt
+    jest.spyOn(apiClient.user, 'getUserList').mockRejectedValueOnce(new Error('Network error'));
+    act(() => {
+      result.current[1]().catch(() => undefined);
+    });
+    await waitFor(() => !!result.current[0].data);
+    expect(result.current[0].error).toBeUndefined();
+  });
+
+  it('Should not retry a mutation when the predicate returns false', async () => {
+    const updateUser = jest.spyOn(apiClient.user, 'updateUser').mockRejectedValue({ status: 404 });
+    const shouldRetry = jest.fn((error: any) => !(error.status >= 400 && error.status < 500));
+    const { result } = renderHook(() => apiHooks.user.updateUser.useMutation({ retry: { attempts: 5, baseDelay: 1, shouldRetry } }), {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>,
+    });
+
+    await act(async () => {
+      await expect(result.current[0]({ id: '1', data: { firstName: 'Retry' } })).rejects.toEqual({ status: 404 });
+    });
+
+    expect(updateUser).toHaveBeenCalledTimes(1);
+    expect(shouldRetry).toHaveBeenCalledWith({ status: 404 }, 1);
+    expect(onFetchError).toHaveBeenCalledTimes(1);
+    expect(onFetchError.mock.calls[0][4]).toEqual({ attempt: 1, willRetry: false });
+    expect(result.current[1].error).toEqual({ status: 404 });
+  });
+});
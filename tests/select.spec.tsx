@@ -0,0 +1,44 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+import { MemoryServer } from '../mock/servers/memory';
+
+it('Selected data should be returned, only re-rendering when the selected value changes', async () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  await client.prefetchQuery(endpointIds.user.getUserList());
+  let renderCount = 0;
+
+  const { result } = renderHook(
+    () => {
+      renderCount += 1;
+      return apiHooks.user.getUserList.useQuery({ select: (users) => users.map((user) => user.id) });
+    },
+    {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+    }
+  );
+
+  const ids = result.current[0].data;
+  expect(ids).toEqual(client.getQueryData<MemoryServer.IUser[]>(endpointIds.user.getUserList())?.map((user) => user.id));
+  const renderCountAfterMount = renderCount;
+
+  // a change to the data that doesn't affect the selected value, or a change to a different endpoint, shouldn't re-render
+  act(() => {
+    client.setQueryData<MemoryServer.IUser[]>(
+      endpointIds.user.getUserList(),
+      (users) => users?.map((user) => ({ ...user, firstName: 'Changed' })) ?? []
+    );
+    client.setQueryData(endpointIds.user.getUser(), { id: 'other' }, { id: 'other' });
+  });
+  expect(renderCount).toEqual(renderCountAfterMount);
+  expect(result.current[0].data).toBe(ids);
+
+  act(() => {
+    client.setQueryData<MemoryServer.IUser[]>(endpointIds.user.getUserList(), (users) => users?.slice(0, 1) ?? []);
+  });
+  expect(renderCount).toBeGreaterThan(renderCountAfterMount);
+  expect(result.current[0].data).toEqual(ids?.slice(0, 1));
+});
@@ -0,0 +1,86 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooks } from '../src/core/apiHooks';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks } from '../mock/state/apiHooks';
+
+const wrapper = ({ children }: React.PropsWithChildren<{ enabled?: boolean }>) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>;
+
+class ApiError extends Error {
+  constructor(public statusCode: number) {
+    super(`Request failed with status ${statusCode}`);
+  }
+}
+
+// the same client, with the error type passed to the create method
+const typedApiHooks = ApiHooks.create<typeof apiClient, undefined, ApiError>(apiClient);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Status', () => {
+  it('Should move a query from idle, to pending, to success, narrowing the data', async () => {
+    const { result, rerender, waitFor } = renderHook(({ enabled }: { enabled: boolean }) => apiHooks.user.getUserList.useQuery({ enabled }), {
+      wrapper,
+      initialProps: { enabled: false },
+    });
+    expect(result.current[0]).toMatchObject({ status: 'idle', data: undefined, error: undefined });
+
+    rerender({ enabled: true });
+    expect(result.current[0].status).toEqual('pending');
+
+    await waitFor(() => result.current[0].status === 'success');
+    const [live] = result.current;
+    expect(live.status).toEqual('success');
+    if (live.status === 'success') {
+      // no optional chaining needed, the data is narrowed to be defined
+      expect(live.data.length).toEqual(5);
+    }
+  });
+
+  it('Should report an error status for a query, narrowing the error to the type passed to the create method', async () => {
+    jest.spyOn(apiClient.user, 'getUserList').mockRejectedValueOnce(new ApiError(500));
+    const { result, waitFor } = renderHook(() => typedApiHooks.user.getUserList.useQuery(), { wrapper });
+    await waitFor(() => result.current[0].status === 'error');
+
+    const [live] = result.current;
+    expect(live.status).toEqual('error');
+    if (live.status === 'error') {
+      expect(live.error.statusCode).toEqual(500);
+    }
+
+    // the error is kept whilst re-fetching, but the status is pending as there's no data
+    act(() => live.retry());
+    expect(result.current[0]).toMatchObject({ status: 'pending', error: live.error });
+    await waitFor(() => result.current[0].status === 'success');
+    expect(result.current[0]).toMatchObject({ status: 'success', error: undefined });
+  });
+
+  it('Should derive the status of a mutation from its local state', async () => {
+    jest.spyOn(apiClient.user, 'deleteUser').mockRejectedValueOnce(new ApiError(404));
+    const { result } = renderHook(() => typedApiHooks.user.deleteUser.useMutation({ throwErrors: false }), { wrapper });
+    expect(result.current[1].status).toEqual('idle');
+
+    await act(async () => {
+      await result.current[0]({ id: '1' });
+    });
+    const [, live] = result.current;
+    expect(live.status).toEqual('error');
+    if (live.status === 'error') {
+      expect(live.error.statusCode).toEqual(404);
+    }
+
+    let request: Promise<unknown> | undefined;
+    act(() => {
+      request = result.current[0]({ id: 'cb6471de-51c0-44d3-8c88-8c2be94ddee0' });
+    });
+    expect(result.current[1].status).toEqual('pending');
+    await act(async () => {
+      await request;
+    });
+    expect(result.current[1].status).toEqual('success');
+  });
+});
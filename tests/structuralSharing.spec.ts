@@ -0,0 +1,45 @@
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { Objects } from '../src/utils/objects';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+import { MemoryServer } from '../mock/servers/memory';
+
+it('Replace equal deep should keep the references of unchanged subtrees', () => {
+  const previous = { users: [{ id: '1' }, { id: '2' }], meta: { page: 1 } };
+  const next = { users: [{ id: '1' }, { id: '3' }], meta: { page: 1 } };
+  const result = Objects.replaceEqualDeep(previous, next);
+
+  expect(result).toEqual(next);
+  expect(result.users[0]).toBe(previous.users[0]);
+  expect(result.users[1]).toEqual(next.users[1]);
+  expect(result.meta).toBe(previous.meta);
+  expect(Objects.replaceEqualDeep(previous, Objects.deepClone(previous))).toBe(previous);
+});
+
+it('Loading identical data into a loaded state slice should keep the data reference, replacing the state slice rather than mutating it', () => {
+  const data = { id: '1' };
+  const state = ApiHooksStore.reducer({}, ApiHooksStore.Actions.loaded('user.getUser', '{"id":"1"}', '1', data, 5, 1000));
+  const newState = ApiHooksStore.reducer(state, ApiHooksStore.Actions.loaded('user.getUser', '{"id":"1"}', '1', data, 5, 2000));
+
+  expect(newState['user.getUser']['1']).not.toBe(state['user.getUser']['1']);
+  expect(newState['user.getUser']['1'].data).toBe(data);
+  expect(newState['user.getUser']['1'].timestamp).toEqual(2000);
+  expect(state['user.getUser']['1'].timestamp).toEqual(1000);
+});
+
+it('Refetched data should share structure with the stored data unless structural sharing is switched off', async () => {
+  const client = ApiHooksClient.create({ hooks: apiHooks });
+  // the memory server returns the same array each time, so clone it to simulate a fresh network response
+  const payloadModifier = (_: unknown, users: MemoryServer.IUser[]) => Objects.deepClone(users);
+  await client.fetchQuery(endpointIds.user.getUserList(), {}, { payloadModifier });
+  const users = client.getQueryData(endpointIds.user.getUserList());
+
+  client.invalidate(endpointIds.user.getUserList());
+  await client.fetchQuery(endpointIds.user.getUserList(), {}, { payloadModifier });
+  expect(client.getQueryData(endpointIds.user.getUserList())).toBe(users);
+
+  client.invalidate(endpointIds.user.getUserList());
+  await client.fetchQuery(endpointIds.user.getUserList(), {}, { payloadModifier, structuralSharing: false });
+  expect(client.getQueryData(endpointIds.user.getUserList())).toEqual(users);
+  expect(client.getQueryData(endpointIds.user.getUserList())).not.toBe(users);
+});
@@ -0,0 +1,56 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+
+it('Hooks should only re-render when the state slice they use changes', async () => {
+  const client = ApiHooksClient.create();
+  const wrapper = ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>;
+  let userListRenderCount = 0;
+
+  const userList = renderHook(
+    () => {
+      userListRenderCount += 1;
+      return apiHooks.user.getUserList.useQuery();
+    },
+    { wrapper }
+  );
+  await userList.waitFor(() => !!userList.result.current[0].data);
+  const userId = userList.result.current[0].data?.[0].id ?? '';
+
+  const user = renderHook(() => apiHooks.user.getUser.useQuery({ parameters: { id: userId }, cacheKey: 'id' }), { wrapper });
+  await user.waitFor(() => !!user.result.current[0].data);
+
+  // loading a different endpoint shouldn't re-render the user list
+  const renderCountAfterLoad = userListRenderCount;
+  await act(async () => {
+    client.invalidate(endpointIds.user.getUser({ cacheKeyValue: userId }));
+    await user.waitFor(() => !user.result.current[0].isFetching && !!user.result.current[0].data);
+  });
+  expect(userListRenderCount).toEqual(renderCountAfterLoad);
+
+  // but invalidating the user list should
+  await act(async () => {
+    client.invalidate(endpointIds.user.getUserList());
+    await userList.waitFor(() => userListRenderCount > renderCountAfterLoad);
+  });
+});
+
+it('Deprecated context should provide the state and dispatch method of the query client', async () => {
+  const client = ApiHooksClient.create();
+  const wrapper = ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>;
+  const { result, waitFor } = renderHook(
+    () => {
+      const [state, dispatch] = React.useContext(ApiHooksStore.Context);
+      const [live] = apiHooks.user.getUserList.useQuery();
+      return { state, dispatch, live };
+    },
+    { wrapper }
+  );
+  await waitFor(() => !!result.current.live.data);
+
+  expect(result.current.state).toBe(client.getState());
+  expect(result.current.dispatch).toBe(client.dispatch);
+});
@@ -0,0 +1,191 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+import { createRoot } from 'react-dom/client';
+
+import { ApiHooks } from '../src/core/apiHooks';
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiClient } from '../mock/api/apiClient';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+import { wait } from '../mock/utils/wait';
+
+/** An error boundary which renders nothing whilst errored, and calls `onReset` before rendering its children again when retried */
+class ErrorBoundary extends React.Component<React.PropsWithChildren<{ onReset: () => void }>, { error?: unknown }> {
+  constructor(props: React.PropsWithChildren<{ onReset: () => void }>) {
+    super(props);
+    this.state = {};
+  }
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error };
+  }
+
+  retry() {
+    const { onReset } = this.props;
+    onReset();
+    this.setState({ error: undefined });
+  }
+
+  render() {
+    const { error } = this.state;
+    const { children } = this.props;
+    return error ? null : children;
+  }
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Suspense', () => {
+  it('Should suspend until the data has loaded, sharing a single request between sibling hooks', async () => {
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList');
+    const { result, waitFor } = renderHook(
+      () => {
+        const [first] = apiHooks.user.getUserList.useQuery({ suspense: true });
+        const [second] = apiHooks.user.getUserList.useQuery({ suspense: true });
+        return [first.data, second.data];
+      },
+      { wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider> }
+    );
+    expect(result.all.length).toEqual(0);
+
+    await waitFor(() => result.all.length > 0);
+    expect(getUserList).toHaveBeenCalledTimes(1);
+    expect(result.all.length).toEqual(1);
+    expect(result.current.map((data) => data?.length)).toEqual([5, 5]);
+  });
+
+  it('Should not suspend whilst the query is held', async () => {
+    const getUser = jest.spyOn(apiClient.user, 'getUser');
+    const { result } = renderHook(() => apiHooks.user.getUser.useQuery({ suspense: true, enabled: false }), {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>,
+    });
+    await wait(20);
+    expect(getUser).not.toHaveBeenCalled();
+    expect(result.current[0].data).toBeUndefined();
+  });
+
+  it('Should throw the error for an error boundary, and re-fetch once the errored state has been reset', async () => {
+    const error = new Error('Network error');
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList').mockRejectedValueOnce(error);
+    const client = ApiHooksClient.create();
+    const { result, rerender, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery({ suspense: true })[0], {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+    });
+    await waitFor(() => !!result.error);
+    expect(result.error).toBe(error);
+
+    // the hook can't be rendered whilst errored, so reset through a separate hook (i.e. an error boundary's "onReset")
+    const { result: resetResult } = renderHook(() => ApiHooksStore.useResetErrors(), {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+    });
+    act(() => resetResult.current(endpointIds.user.getUserList()));
+    expect(client.getState()['user.getUserList']?.['all-data']).toBeUndefined();
+
+    rerender();
+    await waitFor(() => !!result.current?.data);
+    expect(getUserList).toHaveBeenCalledTimes(2);
+    expect(result.current.data?.length).toEqual(5);
+  });
+
+  it('Should not update other components whilst rendering, when sibling components suspend on the same query', async () => {
+    const consoleError = jest.spyOn(console, 'error');
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList');
+    const SuspendingSibling: React.FC<{ enabled: boolean }> = ({ enabled }) => {
+      apiHooks.user.getUserList.useQuery({ suspense: true, enabled });
+      return null;
+    };
+    const { result, rerender, waitFor } = renderHook(
+      ({ enabled }: { enabled: boolean }) => apiHooks.user.getUserList.useQuery({ suspense: true, enabled })[0].data,
+      {
+        initialProps: { enabled: false },
+        wrapper: ({ children, enabled }: React.PropsWithChildren<{ enabled: boolean }>) => (
+          <ApiHooksStore.Provider>
+            <React.Suspense fallback={null}>
+              <SuspendingSibling enabled={enabled} />
+            </React.Suspense>
+            {children}
+          </ApiHooksStore.Provider>
+        ),
+      }
+    );
+
+    // both components are mounted and subscribed to the state slice before they suspend
+    rerender({ enabled: true });
+    await waitFor(() => result.current?.length === 5);
+
+    expect(getUserList).toHaveBeenCalledTimes(1);
+    expect(consoleError.mock.calls.filter(([message]) => String(message).includes('Cannot update a component'))).toEqual([]);
+  });
+
+  it('Should not suspend again once the query has been cancelled by the pre-processor', async () => {
+    const preProcessor = jest.fn(async () => false);
+    const preProcessedApiHooks = ApiHooks.create(apiClient, { preProcessorHook: () => preProcessor });
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList');
+    const { result, waitFor } = renderHook(() => preProcessedApiHooks.user.getUserList.useQuery({ suspense: true })[0], {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider>{children}</ApiHooksStore.Provider>,
+    });
+    await waitFor(() => result.current?.fetchingMode === 'aborted');
+    const preProcessorCalls = preProcessor.mock.calls.length;
+
+    await wait(20);
+    expect(preProcessor).toHaveBeenCalledTimes(preProcessorCalls);
+    expect(getUserList).not.toHaveBeenCalled();
+    expect(result.current.data).toBeUndefined();
+  });
+
+  it('Should not schedule the data a suspended component is waiting for to be garbage collected', async () => {
+    const client = ApiHooksClient.create();
+    const scheduleGarbageCollection = jest.spyOn(client, 'scheduleGarbageCollection');
+    let data: unknown;
+    const SuspendingComponent: React.FC = () => {
+      [{ data }] = apiHooks.user.getUserList.useQuery({ suspense: true, caching: { gcAfter: 0 } });
+      return null;
+    };
+    // a concurrent root is used, the legacy root used by renderHook mounts suspended components before their data has loaded
+    const root = createRoot(document.createElement('div'));
+    await act(async () => {
+      root.render(
+        <ApiHooksStore.Provider client={client}>
+          <React.Suspense fallback={null}>
+            <SuspendingComponent />
+          </React.Suspense>
+        </ApiHooksStore.Provider>
+      );
+      await wait(20);
+    });
+    expect(data).toBeDefined();
+    expect(data).toBe(client.getQueryData(endpointIds.user.getUserList()));
+    expect(scheduleGarbageCollection).not.toHaveBeenCalled();
+    act(() => root.unmount());
+  });
+
+  it('Should recover once an error boundary has reset the errored state and retried', async () => {
+    const error = new Error('Network error');
+    const getUserList = jest.spyOn(apiClient.user, 'getUserList').mockRejectedValueOnce(error);
+    const boundary = React.createRef<ErrorBoundary>();
+    const ResettingBoundary: React.FC<React.PropsWithChildren> = ({ children }) => {
+      const resetErrors = ApiHooksStore.useResetErrors();
+      return (
+        <ErrorBoundary ref={boundary} onReset={() => resetErrors(endpointIds.user.getUserList())}>
+          {children}
+        </ErrorBoundary>
+      );
+    };
+    const { result, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery({ suspense: true })[0], {
+      wrapper: ({ children }: React.PropsWithChildren) => (
+        <ApiHooksStore.Provider>
+          <ResettingBoundary>{children}</ResettingBoundary>
+        </ApiHooksStore.Provider>
+      ),
+    });
+    await waitFor(() => !!boundary.current?.state.error);
+    expect(boundary.current?.state.error).toBe(error);
+
+    act(() => boundary.current?.retry());
+    await waitFor(() => result.current?.data?.length === 5);
+    expect(getUserList).toHaveBeenCalledTimes(2);
+    expect(result.current.status).toEqual('success');
+  });
+});
@@ -0,0 +1,76 @@
+import { renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { ApiHooksSync } from '../src/core/sync';
+import { apiHooks, endpointIds } from '../mock/state/apiHooks';
+
+/** An in-memory stand in for a `BroadcastChannel`, delivers every message to every other channel created by the same hub */
+const createChannelHub = () => {
+  const subscribers: ((message: ApiHooksSync.Message) => void)[][] = [];
+  const posted: ApiHooksSync.Message[] = [];
+  const createChannel = (): ApiHooksSync.Channel => {
+    const index = subscribers.push([]) - 1;
+    return {
+      postMessage: (message) => {
+        posted.push(message);
+        subscribers.forEach((channelSubscribers, channelIndex) => {
+          if (channelIndex !== index) {
+            channelSubscribers.forEach((onMessage) => onMessage(JSON.parse(JSON.stringify(message))));
+          }
+        });
+      },
+      subscribe: (onMessage) => {
+        subscribers[index].push(onMessage);
+        return () => subscribers[index].splice(subscribers[index].indexOf(onMessage), 1);
+      },
+    };
+  };
+  return { createChannel, posted };
+};
+
+describe('Sync', () => {
+  it('Should apply loaded and reset actions from other clients, skipping loading actions, denied endpoints and echoes', () => {
+    const { createChannel, posted } = createChannelHub();
+    const firstClient = ApiHooksClient.create();
+    const secondClient = ApiHooksClient.create();
+    const endpoints = { deny: [endpointIds.user.searchUser()] };
+    const disconnectFirst = ApiHooksSync.create({ channel: createChannel(), endpoints }).connect(firstClient);
+    const disconnectSecond = ApiHooksSync.create({ channel: createChannel(), endpoints }).connect(secondClient);
+
+    firstClient.dispatch(ApiHooksStore.Actions.loading('user.getUser', '{"id":"1"}', '1', 'auto', 5));
+    expect(secondClient.getState()['user.getUser']).toBeUndefined();
+
+    firstClient.dispatch(ApiHooksStore.Actions.loaded('user.getUser', '{"id":"1"}', '1', { id: '1', name: 'Updated' }, 5));
+    expect(secondClient.getQueryData(endpointIds.user.getUser({ cacheKeyValue: '1' }))).toEqual({ id: '1', name: 'Updated' });
+    expect(secondClient.getState()['user.getUser']['1'].status).toEqual('loaded');
+
+    firstClient.dispatch(ApiHooksStore.Actions.loaded('user.searchUser', '{}', 'all-data', [], 5));
+    expect(secondClient.getState()['user.searchUser']).toBeUndefined();
+
+    // the applied action must not be published back to the channel
+    expect(posted).toHaveLength(1);
+
+    secondClient.dispatch(ApiHooksStore.Actions.reset('user.getUser', '1'));
+    expect(firstClient.getQueryData(endpointIds.user.getUser({ cacheKeyValue: '1' }))).toBeUndefined();
+    expect(posted).toHaveLength(2);
+
+    disconnectFirst();
+    disconnectSecond();
+  });
+
+  it('Should connect the query client passed to the provider', async () => {
+    const { createChannel } = createChannelHub();
+    const otherTab = ApiHooksClient.create();
+    ApiHooksSync.create({ channel: createChannel() }).connect(otherTab);
+
+    const sync = ApiHooksSync.create({ channel: createChannel() });
+    const { result, waitFor } = renderHook(() => apiHooks.user.getUserList.useQuery(), {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider sync={sync}>{children}</ApiHooksStore.Provider>,
+    });
+    await waitFor(() => !!result.current[0].data);
+
+    expect(otherTab.getQueryData(endpointIds.user.getUserList())).toEqual(result.current[0].data);
+  });
+});
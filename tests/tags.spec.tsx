@@ -0,0 +1,62 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import * as React from 'react';
+
+import { ApiHooksClient } from '../src/core/client';
+import { ApiHooksStore } from '../src/core/store';
+import { apiHooks } from '../mock/state/apiHooks';
+
+it('Invalidating tags should only mark the state slices providing them for a refetch', () => {
+  let state = ApiHooksStore.reducer(
+    {},
+    ApiHooksStore.Actions.loaded('user.getUser', '{"id":"1"}', '1', { id: '1' }, 5, undefined, false, ['User:1'])
+  );
+  state = ApiHooksStore.reducer(state, ApiHooksStore.Actions.loaded('user.getUser', '{"id":"2"}', '2', { id: '2' }, 5, undefined, false, ['User:2']));
+  // a loaded action without tags keeps the stored tags
+  state = ApiHooksStore.reducer(state, ApiHooksStore.Actions.loaded('user.getUser', '{"id":"1"}', '1', { id: '1', name: 'Updated' }, 5));
+  expect(state['user.getUser']['1'].tags).toEqual(['User:1']);
+
+  state = ApiHooksStore.reducer(state, ApiHooksStore.Actions.invalidateTags(['User:1', 'Unknown']));
+  expect(state['user.getUser']['1'].shouldRefetchData).toEqual({});
+  expect(state['user.getUser']['2'].shouldRefetchData).toBeUndefined();
+});
+
+it('A successful mutation should refetch the queries providing the tags it invalidates', async () => {
+  const client = ApiHooksClient.create();
+  const onUserFetchStart = jest.fn();
+  const onListFetchStart = jest.fn();
+  const { result, waitFor } = renderHook(
+    () => {
+      const [{ data: users }] = apiHooks.user.getUserList.useQuery({ providesTags: ['UserList'], onFetchStart: onListFetchStart });
+      const [{ data: user }] = apiHooks.user.getUser.useQuery({
+        parameters: { id: users?.[0]?.id },
+        autoInvoke: !!users,
+        providesTags: (__, params) => [`User:${params.id}`],
+        onFetchStart: onUserFetchStart,
+      });
+      const [updateUser] = apiHooks.user.updateUser.useMutation({ invalidatesTags: (settings) => [`User:${settings.parameters?.id}`] });
+      return { users, user, updateUser };
+    },
+    {
+      wrapper: ({ children }: React.PropsWithChildren) => <ApiHooksStore.Provider client={client}>{children}</ApiHooksStore.Provider>,
+    }
+  );
+  await waitFor(() => !!result.current.user);
+  const userId = result.current.users?.[0].id;
+  expect(onUserFetchStart).toHaveBeenCalledTimes(1);
+  expect(onListFetchStart).toHaveBeenCalledTimes(1);
+
+  await act(async () => {
+    await result.current.updateUser({ id: userId, data: { firstName: 'Tagged' } });
+  });
+  await waitFor(() => result.current.user?.firstName === 'Tagged');
+
+  expect(onUserFetchStart).toHaveBeenCalledTimes(2);
+  expect(onListFetchStart).toHaveBeenCalledTimes(1);
+
+  // the query client can invalidate tags too
+  act(() => {
+    client.invalidateTags(['UserList']);
+  });
+  await waitFor(() => onListFetchStart.mock.calls.length === 2);
+  expect(onUserFetchStart).toHaveBeenCalledTimes(2);
+});